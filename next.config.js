@@ -1,6 +1,8 @@
 
 // @ts-check
 
+import { IMAGE_HOST_MEDIA_HOSTNAMES } from './src/services/image-host-manifest.js';
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   /* config options here */
@@ -31,6 +33,12 @@ const nextConfig = {
          port: '',
          pathname: '/**',
        },
+       {
+         protocol: 'https',
+         hostname: 'external-preview.redd.it',
+         port: '',
+         pathname: '/**',
+       },
        // Add Ad image domain
        {
         protocol: 'https',
@@ -38,6 +46,13 @@ const nextConfig = {
         port: '',
         pathname: '/**',
       },
+      // Media hosts of the external image host resolvers (see src/services/image-host-manifest.js)
+      ...Object.values(IMAGE_HOST_MEDIA_HOSTNAMES).flat().map(hostname => ({
+        protocol: /** @type {const} */ ('https'),
+        hostname,
+        port: '',
+        pathname: '/**',
+      })),
       // Add other allowed hostnames here if needed
     ],
   },
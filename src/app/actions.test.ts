@@ -0,0 +1,130 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startMockRedditServer } from '@/mocks/reddit/server';
+import type { scrapeSubredditAction as ScrapeSubredditAction } from './actions';
+
+type ScrapeState = Parameters<typeof ScrapeSubredditAction>[0];
+
+const initialState: ScrapeState = {
+  images: null,
+  error: null,
+  errorCode: null,
+  message: null,
+  after: null,
+  rateLimit: null,
+  sources: null,
+  cached: false,
+  cacheAge: null,
+  historyDiff: null,
+  parameters: null,
+  requestKey: null,
+  timestamp: 0,
+};
+
+let server: Server;
+
+beforeAll(async () => {
+  server = await startMockRedditServer(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  vi.stubEnv('REDDIT_AUTH_BASE_URL', baseUrl);
+  vi.stubEnv('REDDIT_API_BASE_URL', baseUrl);
+  vi.stubEnv('REDDIT_MAX_RETRIES', '0'); // Report 429s right away instead of waiting out Retry-After
+  vi.stubEnv('SCRAPE_CACHE_TTL_SECONDS', '0');
+  vi.stubEnv('SCRAPE_HISTORY_STORE', 'memory');
+  vi.stubEnv('IMGUR_CLIENT_ID', ''); // Imgur albums are skipped instead of calling the Imgur API
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+// The action's services keep shared clients and caches configured from the environment, so each test loads them fresh
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubEnv('REDDIT_CLIENT_ID', 'mock-client');
+  vi.stubEnv('REDDIT_CLIENT_SECRET', 'mock-secret');
+});
+
+async function submit(fields: Record<string, string>, state: ScrapeState = initialState): Promise<ScrapeState> {
+  const { scrapeSubredditAction } = await import('./actions');
+  const formData = new FormData();
+  Object.entries(fields).forEach(([name, value]) => formData.set(name, value));
+  return scrapeSubredditAction(state, formData);
+}
+
+describe('scrapeSubredditAction', () => {
+  it('returns sanitized images and the next page cursor', async () => {
+    const state = await submit({ subredditUrl: 'https://www.reddit.com/r/mockpics/', limit: '10' });
+
+    expect(state.error).toBeNull();
+    expect(state.images).toHaveLength(10);
+    expect(state.after).toBe('t3_mk012'); // The last post looked at, on the second listing page
+    expect(state.message).toBe('Successfully fetched 10 images.');
+    expect(state.rateLimit?.remaining).toBeTypeOf('number');
+  });
+
+  it('appends the next page to the images already shown', async () => {
+    const firstPage = await submit({ subredditUrl: 'r/mockpics', limit: '10' });
+    expect(firstPage.parameters).toEqual({ subredditUrl: 'r/mockpics', limit: '10' });
+    // "Load more" resubmits the fields of the scrape shown
+    const secondPage = await submit({ ...firstPage.parameters, after: firstPage.after ?? '' }, firstPage);
+
+    expect(secondPage.requestKey).toBe(firstPage.requestKey);
+    expect(secondPage.parameters).toEqual(firstPage.parameters);
+
+    // Reposts found on the second page are recorded on the images already shown
+    expect(secondPage.images?.slice(0, 10).map(post => post.mediaId)).toEqual(firstPage.images?.map(post => post.mediaId));
+    expect(secondPage.images?.find(post => post.postId === 't3_mk006')?.alsoPostedIn.map(ref => ref.postId)).toEqual(['t3_mk019']);
+    expect(secondPage.images).toHaveLength(16);
+    expect(secondPage.after).toBeNull();
+    expect(secondPage.message).toBe('Loaded 6 more images.');
+  });
+
+  it('drops images on hosts that are not allowed from the state sent back with "Load more"', async () => {
+    const firstPage = await submit({ subredditUrl: 'r/mockpics', limit: '10' });
+    const forged = { ...firstPage.images![0], mediaId: 'forged', imageUrl: 'http://169.254.169.254/latest/meta-data' };
+    const secondPage = await submit({ ...firstPage.parameters, after: firstPage.after ?? '' }, { ...firstPage, images: [forged, ...firstPage.images!] });
+
+    expect(secondPage.images?.some(post => post.mediaId === 'forged')).toBe(false);
+    expect(secondPage.images).toHaveLength(16);
+  });
+
+  it('reports per-source results for a batch', async () => {
+    const state = await submit({ subredditUrl: 'r/mockpics, r/notfound' });
+
+    expect(state.error).toBeNull();
+    expect(state.sources?.map(source => [source.target, source.status, source.errorCode])).toEqual([
+      ['r/mockpics', 'ok', null],
+      ['r/notfound', 'error', 'SUBREDDIT_NOT_FOUND'],
+    ]);
+  });
+
+  it.each([
+    ['an invalid target', { subredditUrl: 'https://example.com/r/pics' }, 'INVALID_INPUT'],
+    ['an invalid limit', { subredditUrl: 'r/mockpics', limit: '1000' }, 'INVALID_INPUT'],
+    ['a private subreddit (403)', { subredditUrl: 'r/private' }, 'SUBREDDIT_FORBIDDEN'],
+    ['an unknown subreddit (404)', { subredditUrl: 'r/notfound' }, 'SUBREDDIT_NOT_FOUND'],
+    ['rate limiting (429)', { subredditUrl: 'r/ratelimited' }, 'RATE_LIMITED'],
+    ['a malformed listing', { subredditUrl: 'r/malformed' }, 'INVALID_LISTING'],
+  ])('reports %s', async (_, fields, errorCode) => {
+    const state = await submit(fields);
+
+    expect(state.errorCode).toBe(errorCode);
+    expect(state.error).toEqual(expect.any(String));
+    expect(state.images).toBeNull();
+  });
+
+  it('reports credentials Reddit rejects (401)', async () => {
+    vi.stubEnv('REDDIT_CLIENT_ID', 'invalid');
+    const state = await submit({ subredditUrl: 'r/mockpics' });
+    expect(state.errorCode).toBe('REDDIT_AUTH_FAILED');
+  });
+
+  it('reports missing credentials', async () => {
+    vi.stubEnv('REDDIT_CLIENT_ID', '');
+    const state = await submit({ subredditUrl: 'r/mockpics' });
+    expect(state.errorCode).toBe('CREDENTIALS_MISSING');
+  });
+});
@@ -1,175 +1,111 @@
-
 'use server';
 
-import type { TrendyPost } from '@/services/subreddit-scraper';
-import { scrapeTrendyImages } from '@/services/subreddit-scraper'; // Now uses Reddit API
-import { z } from 'zod';
-import nextConfig from '../../next.config.js'; // Import config - use .js extension
-
-interface ScrapeState {
-  images: TrendyPost[] | null;
-  error: string | null;
-  message: string | null; // Add message field
+import type { RateLimitBudget } from '@/services/reddit-rate-limiter';
+import { toScraperError } from '@/services/scraper-errors';
+import { getRedditRateLimitBudget } from '@/services/subreddit-scraper'; // Now uses Reddit API
+import { parseScrapeRequest, SCRAPE_REQUEST_FIELD_NAMES, type ScrapeRequest } from '@/services/scrape-request';
+import { runScrape, type ScrapeOutcome } from '@/services/scrape-service';
+import {
+  createScrapeRun,
+  getRunParameters,
+  getScrapeRequestKey,
+  listScrapeRuns,
+  recordScrapeRun,
+  type ScrapeRunDiff,
+  type ScrapeRunSummary,
+} from '@/services/scrape-history';
+
+interface ScrapeState extends ScrapeOutcome {
+  rateLimit: RateLimitBudget | null; // Reddit API budget after the last scrape, for display
+  historyDiff: ScrapeRunDiff | null; // Changes since the previous run of the same scrape, null if there is none
+  parameters: Record<string, string> | null; // Fields of the scrape shown, which "Load more" resubmits with the cursor
+  requestKey: string | null; // Identifies the scrape shown (see getScrapeRequestKey); unchanged by "Load more"
   timestamp: number;
 }
 
-const urlSchema = z.string().url({ message: "Please enter a valid URL." })
-  .refine(url => url.includes('reddit.com/r/'), {
-    message: "Please enter a valid Reddit subreddit URL (e.g., https://www.reddit.com/r/...)."
-  });
-
-// Schema for limit, ensuring it's a positive number within a reasonable range
-const limitSchema = z.coerce // Coerce string from FormData to number
-  .number()
-  .int({ message: "Limit must be a whole number." })
-  .positive({ message: "Limit must be positive." })
-  .min(1, { message: "Limit must be at least 1." })
-  .max(100, { message: "Maximum limit is 100." }) // Reddit API limit
-  .default(25); // Default limit if not provided or invalid
-
-
-// --- Image URL Validation/Sanitization Helpers ---
-function getAllowedHostnames(): Set<string> {
-    const allowed = new Set<string>([
-        'i.redd.it',
-        'preview.redd.it',
-    ]);
-
-    const configHostnames = nextConfig.images?.remotePatterns
-        ?.map(pattern => pattern.hostname)
-        .filter((hostname): hostname is string => !!hostname) ?? [];
-
-    configHostnames.forEach(host => allowed.add(host));
-    allowed.add('picsum.photos');
-
-    return allowed;
-}
-const placeholderImageUrl = `https://picsum.photos/seed/placeholder/400/400`;
-
-function isValidAndAllowedUrl(imageUrl: string | null | undefined, allowedHostnames: Set<string>): boolean {
-    if (!imageUrl) return false;
-    try {
-        const url = new URL(imageUrl);
-        return (url.protocol === "http:" || url.protocol === "https:") && allowedHostnames.has(url.hostname);
-    } catch (_) {
-        return false;
-    }
-}
-
-function sanitizePosts(posts: TrendyPost[], allowedHostnames: Set<string>): TrendyPost[] {
-    return posts.map(post => ({
-        ...post,
-        imageUrl: isValidAndAllowedUrl(post.imageUrl, allowedHostnames) ? post.imageUrl : placeholderImageUrl,
-    })).filter(post => post.imageUrl !== placeholderImageUrl);
-}
-// --- End Image URL Validation/Sanitization Helpers ---
-
+// Number of past runs listed in the history panel
+const HISTORY_LIST_LIMIT = 20;
 
 export async function scrapeSubredditAction(
   prevState: ScrapeState,
   formData: FormData
 ): Promise<ScrapeState> {
-  const subredditUrl = formData.get('subredditUrl');
-  const limitValue = formData.get('limit'); // Get limit from form data
-
-  // --- Validate URL ---
-  const urlParseResult = urlSchema.safeParse(subredditUrl);
-  if (!urlParseResult.success) {
-    const errorMessage = urlParseResult.error.errors[0]?.message || "Invalid URL provided.";
-     return {
-        ...prevState, // Keep previous images/messages if any
-        images: null, // Clear images on new validation error
-        error: errorMessage,
-        message: null, // Clear message
-        timestamp: Date.now(),
-     };
-  }
-  const validatedUrl = urlParseResult.data;
-
-  // --- Validate Limit ---
-  const limitParseResult = limitSchema.safeParse(limitValue);
-  if (!limitParseResult.success) {
-      const errorMessage = limitParseResult.error.errors[0]?.message || "Invalid limit value provided.";
-      return {
-          ...prevState,
-          images: null,
-          error: errorMessage,
-          message: null,
-          timestamp: Date.now(),
-      };
-  }
-  const validatedLimit = limitParseResult.data;
-
-  // --- Check API Credentials ---
-  if (!process.env.REDDIT_CLIENT_ID || !process.env.REDDIT_CLIENT_SECRET) {
-       return {
-           ...prevState,
-           images: null,
-           error: "Reddit API credentials (REDDIT_CLIENT_ID, REDDIT_CLIENT_SECRET) are not configured on the server. Please set them in the .env file.",
-           message: null,
-           timestamp: Date.now(),
-       };
+  // --- Validate Form Fields ---
+  // Validation is shared with the REST API (see scrape-request.ts)
+  const fields = Object.fromEntries(SCRAPE_REQUEST_FIELD_NAMES.map(name => [name, formData.get(name)]));
+  let request: ScrapeRequest;
+  try {
+    request = parseScrapeRequest(fields);
+  } catch (error) {
+    const scraperError = toScraperError(error, "Invalid input provided.");
+    return {
+      ...prevState, // Keep the API budget shown
+      images: null, // Clear images on new validation error
+      error: scraperError.message,
+      errorCode: scraperError.code,
+      message: null, // Clear message
+      after: null,
+      sources: null,
+      cached: false,
+      cacheAge: null,
+      historyDiff: null,
+      parameters: null,
+      requestKey: null,
+      timestamp: Date.now(),
+    };
   }
+  // When loading more, new images are appended to the ones already shown
+  const previousImages = request.after ? prevState.images ?? [] : [];
 
   // --- Perform Scraping ---
   try {
-    // Call the API-based function with validated URL and limit
-    const rawPosts = await scrapeTrendyImages(validatedUrl, validatedLimit);
-
-    if (rawPosts === null) {
-        return {
-            ...prevState,
-            images: null,
-            error: "Failed to retrieve data from Reddit API. The subreddit might be inaccessible or an API error occurred.",
-            message: null,
-            timestamp: Date.now(),
-        };
-    }
-
-     if (rawPosts.length === 0) {
-        return {
-            images: [],
-            error: null,
-            message: `Found 0 suitable image posts in r/${validatedUrl.split('/r/')[1]?.split('/')[0]} with the current filters.`, // More informative message
-            timestamp: Date.now(),
-        };
-     }
-
-    const allowedHostnames = getAllowedHostnames();
-    const sanitizedPosts = sanitizePosts(rawPosts, allowedHostnames);
-
-     if (sanitizedPosts.length === 0 && rawPosts.length > 0) {
-       return {
-         images: [],
-         error: `Found ${rawPosts.length} posts via API, but their image URLs were not from allowed domains (check next.config.js and ensure i.redd.it, preview.redd.it are included) or were filtered out.`,
-         message: null,
-         timestamp: Date.now(),
-       };
-     }
-
-    // --- Success State ---
+    const outcome = await runScrape(request, previousImages);
+    // Only first pages are recorded; "Load more" keeps comparing against the first page's previous run
+    const historyDiff = request.after
+      ? prevState.historyDiff
+      : await recordScrapeRun(createScrapeRun(
+          request,
+          getRunParameters(fields),
+          outcome.error ? null : outcome.images,
+          outcome.error ? { code: outcome.errorCode, message: outcome.error } : null,
+        ));
     return {
-      images: sanitizedPosts,
-      error: null,
-      message: `Successfully fetched ${sanitizedPosts.length} images.`, // Success message
+      ...outcome,
+      rateLimit: getRedditRateLimitBudget(),
+      historyDiff,
+      parameters: getRunParameters(fields),
+      requestKey: getScrapeRequestKey(request),
       timestamp: Date.now(),
     };
 
   } catch (error) {
     console.error("Reddit API action error:", error);
-    let errorMessage = "An unexpected error occurred while fetching data from Reddit.";
-    if (error instanceof Error) {
-        errorMessage = error.message;
-        if (errorMessage.includes("401")) {
-            errorMessage = "Failed to authenticate with Reddit API (401 Unauthorized). Please check your REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET in the .env file.";
-        }
+    const scraperError = toScraperError(error, "An unexpected error occurred while fetching data from Reddit.");
+    if (!request.after) {
+      await recordScrapeRun(createScrapeRun(request, getRunParameters(fields), null, { code: scraperError.code, message: scraperError.message }));
     }
     return {
       ...prevState,
-      images: null,
-      error: errorMessage,
+      images: request.after ? prevState.images : null, // Keep already loaded images if "Load more" failed
+      error: scraperError.message,
+      errorCode: scraperError.code,
       message: null,
+      after: request.after ? prevState.after : null,
+      rateLimit: getRedditRateLimitBudget(),
+      sources: request.after ? prevState.sources : null,
+      cached: request.after ? prevState.cached : false,
+      cacheAge: request.after ? prevState.cacheAge : null,
+      historyDiff: request.after ? prevState.historyDiff : null,
+      parameters: request.after ? prevState.parameters : null,
+      requestKey: request.after ? prevState.requestKey : null,
       timestamp: Date.now(),
     };
   }
 }
+
+/**
+ * Lists the most recent scrape runs for the history panel, newest first.
+ */
+export async function getScrapeHistoryAction(): Promise<ScrapeRunSummary[]> {
+  return listScrapeRuns(HISTORY_LIST_LIMIT);
+}
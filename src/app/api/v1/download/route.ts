@@ -0,0 +1,61 @@
+/**
+ * @fileoverview POST /api/v1/download: streams a ZIP archive of scraped images and videos, with a manifest of
+ * their metadata (see media-archive.ts). The archive is written while the media downloads, so the response starts
+ * right away and the server never holds the whole archive.
+ *
+ * The body is either JSON (`{ "posts": TrendyPost[] }`) or a form with a `posts` field holding the same list as
+ * JSON, which lets the page start the download with a plain form submission. Posts are the ones a scrape returned
+ * (e.g., the `posts` of GET /api/v1/scrape). Media is only downloaded from the hosts the app allows.
+ *
+ * Responds with the archive, or an ApiErrorResponse (see ../types.ts) with status 400 if the posts are invalid.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { InvalidInputError, toScraperError } from '@/services/scraper-errors';
+import { createMediaArchiveStream, parseArchivePosts } from '@/services/media-archive';
+import type { ApiErrorResponse } from '../types';
+
+/**
+ * Reads the submitted posts from a JSON or form body.
+ * @throws InvalidInputError if the body can't be read or the posts are invalid.
+ */
+async function readPosts(request: NextRequest) {
+  let value: unknown;
+  try {
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      value = (await request.json())?.posts;
+    } else {
+      const field = (await request.formData()).get('posts');
+      value = typeof field === 'string' ? JSON.parse(field) : undefined;
+    }
+  } catch (_) {
+    throw new InvalidInputError("The request body is not valid JSON or form data.");
+  }
+  return parseArchivePosts(value);
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  // --- Validate Request Body ---
+  let posts;
+  try {
+    posts = await readPosts(request);
+  } catch (error) {
+    const scraperError = toScraperError(error, "Invalid request.");
+    return NextResponse.json<ApiErrorResponse>({
+      ok: false,
+      error: { code: scraperError.code, message: scraperError.message },
+      sources: null,
+      rateLimit: null, // No Reddit API requests are made
+    }, { status: scraperError.status });
+  }
+
+  // --- Stream Archive ---
+  const fileName = `reddit-media-${new Date().toISOString().slice(0, 10)}.zip`;
+  return new Response(createMediaArchiveStream(posts), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview GET /api/v1/export: runs a scrape and returns its images as a downloadable document, e.g. to
+ * subscribe to a subreddit's top images in a feed reader or to pull a CSV into a spreadsheet on a schedule.
+ *
+ * Query parameters:
+ * - format (required): json, ndjson, csv, markdown, rss or atom (see post-export.ts).
+ * - The scrape's parameters, as for GET /api/v1/scrape (see ../scrape-query.ts).
+ *
+ * Responds with the document, or an ApiErrorResponse (see ../types.ts) with the HTTP status of the failure.
+ */
+
+import type { NextRequest } from 'next/server';
+import { InvalidInputError, toScraperError } from '@/services/scraper-errors';
+import { formatRedditTarget } from '@/services/reddit-target';
+import type { ScrapeRequest } from '@/services/scrape-request';
+import { runScrape } from '@/services/scrape-service';
+import { slugifyTitle } from '@/services/media-download';
+import {
+  formatPosts,
+  getDefaultExportMetadata,
+  POST_EXPORT_CONTENT_TYPES,
+  POST_EXPORT_FILE_EXTENSIONS,
+  POST_EXPORT_FORMATS,
+  type PostExportFormat,
+} from '@/services/post-export';
+import { outcomeErrorResponse, parseScrapeQuery, scraperErrorResponse } from '../scrape-query';
+
+function parseExportFormat(value: string | null): PostExportFormat {
+  const format = POST_EXPORT_FORMATS.find(candidate => candidate === value);
+  if (!format) {
+    throw new InvalidInputError(`Please choose an export format: ${POST_EXPORT_FORMATS.join(', ')}.`);
+  }
+  return format;
+}
+
+export async function GET(request: NextRequest): Promise<Response> {
+  // --- Validate Query Parameters ---
+  let scrapeRequest: ScrapeRequest;
+  let format: PostExportFormat;
+  try {
+    format = parseExportFormat(request.nextUrl.searchParams.get('format'));
+    scrapeRequest = parseScrapeQuery(request.nextUrl.searchParams);
+  } catch (error) {
+    return scraperErrorResponse(toScraperError(error, "Invalid query parameters."));
+  }
+
+  // --- Perform Scraping ---
+  try {
+    const outcome = await runScrape(scrapeRequest);
+    if (outcome.error) {
+      return outcomeErrorResponse(outcome);
+    }
+
+    // --- Format Document ---
+    const posts = outcome.images ?? [];
+    const targetLabel = scrapeRequest.targets.map(formatRedditTarget).join(', ');
+    const document = formatPosts(posts, format, {
+      ...getDefaultExportMetadata(posts),
+      title: `Images from ${targetLabel}${scrapeRequest.search ? ` matching "${scrapeRequest.search.query}"` : ''}`,
+    });
+    const fileName = `reddit-${slugifyTitle(targetLabel)}-${new Date().toISOString().slice(0, 10)}.${POST_EXPORT_FILE_EXTENSIONS[format]}`;
+    return new Response(document, {
+      headers: {
+        'Content-Type': POST_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Reddit API export error:", error);
+    return scraperErrorResponse(toScraperError(error, "An unexpected error occurred while fetching data from Reddit."));
+  }
+}
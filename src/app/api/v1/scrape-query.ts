@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Query parsing and error responses shared by the API routes that run a scrape
+ * (GET /api/v1/scrape and GET /api/v1/export), so both accept the same parameters and fail the same way.
+ *
+ * Query parameters:
+ * - target (required): a subreddit, user, custom feed or post, in any shape the form accepts. Repeat the parameter
+ *   or separate targets with commas to scrape a batch.
+ * - limit: images to collect (per target for batches), 1-500. Default 25.
+ * - sort, timeWindow: the listing sort and time window (while searching, `sort` is a search sort).
+ * - after: the cursor from a previous response's `after`, to fetch the next page.
+ * - q: search the target for posts matching this query instead of reading its listing.
+ * - Content filters, named as in the form: nsfw, spoilers, skipStickied, minScore, minComments, minUpvoteRatio
+ *   (a percentage), flairAllow, flairDeny, maxAgeHours, titleInclude, titleExclude.
+ * - collapseDuplicates, duplicateThreshold: collapse near-duplicate images (pass collapseDuplicates=true).
+ */
+
+import { NextResponse } from 'next/server';
+import { RateLimitedError, type ScraperError } from '@/services/scraper-errors';
+import { getRedditRateLimitBudget } from '@/services/subreddit-scraper';
+import { parseScrapeRequest, SCRAPE_REQUEST_FIELD_NAMES, type ScrapeRequest } from '@/services/scrape-request';
+import type { ScrapeOutcome } from '@/services/scrape-service';
+import type { ApiErrorResponse } from './types';
+
+/**
+ * Validates a scrape's query parameters.
+ * @param searchParams The request's query parameters.
+ * @returns The validated request.
+ * @throws InvalidInputError with the message of the first invalid parameter.
+ */
+export function parseScrapeQuery(searchParams: URLSearchParams): ScrapeRequest {
+  return parseScrapeRequest({
+    ...Object.fromEntries(SCRAPE_REQUEST_FIELD_NAMES.map(name => [name, searchParams.get(name)])),
+    subredditUrl: searchParams.getAll('target').join(','),
+    query: searchParams.get('q'),
+  });
+}
+
+/**
+ * Builds the response for a thrown scraper error, with the error's HTTP status
+ * (and a Retry-After header when Reddit rate limited the scrape).
+ */
+export function scraperErrorResponse(error: ScraperError): NextResponse<ApiErrorResponse> {
+  const headers: Record<string, string> = {};
+  if (error instanceof RateLimitedError && error.retryAfterSeconds !== null) {
+    headers['Retry-After'] = String(Math.ceil(error.retryAfterSeconds));
+  }
+  return NextResponse.json({
+    ok: false,
+    error: { code: error.code, message: error.message },
+    sources: null,
+    rateLimit: getRedditRateLimitBudget(),
+  }, { status: error.status, headers });
+}
+
+/**
+ * Builds the response for a failure reported in a scrape outcome rather than thrown. Its status is
+ * the first failed target's when every target of a batch failed, otherwise 502
+ * (Reddit answered, but with nothing the app can show).
+ * @param outcome An outcome whose `error` is set.
+ */
+export function outcomeErrorResponse(outcome: ScrapeOutcome): NextResponse<ApiErrorResponse> {
+  return NextResponse.json({
+    ok: false,
+    error: { code: outcome.errorCode ?? 'UNEXPECTED_ERROR', message: outcome.error ?? "The scrape failed." },
+    sources: outcome.sources,
+    rateLimit: getRedditRateLimitBudget(),
+  }, { status: outcome.sources?.find(source => source.status === 'error')?.errorStatus ?? 502 });
+}
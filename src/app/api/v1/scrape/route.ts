@@ -0,0 +1,50 @@
+/**
+ * @fileoverview GET /api/v1/scrape: scrapes image posts from Reddit targets and returns them as JSON, for scripts and
+ * dashboards that can't call the scrape form's server action. Validation and scraping are shared with the form
+ * (see scrape-request.ts and scrape-service.ts), so both accept the same values and report the same errors.
+ *
+ * Query parameters are described in ../scrape-query.ts (target, limit, sort, timeWindow, after, q, filters, ...).
+ *
+ * Responds with a ScrapeApiResponse (see ../types.ts). Errors use the HTTP status of the failure
+ * (400 for invalid parameters, 404 for unknown targets, 429 when rate limited, ...).
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { toScraperError } from '@/services/scraper-errors';
+import { getRedditRateLimitBudget } from '@/services/subreddit-scraper';
+import type { ScrapeRequest } from '@/services/scrape-request';
+import { runScrape } from '@/services/scrape-service';
+import { outcomeErrorResponse, parseScrapeQuery, scraperErrorResponse } from '../scrape-query';
+import type { ScrapeApiResponse } from '../types';
+
+export async function GET(request: NextRequest): Promise<NextResponse<ScrapeApiResponse>> {
+  // --- Validate Query Parameters ---
+  let scrapeRequest: ScrapeRequest;
+  try {
+    scrapeRequest = parseScrapeQuery(request.nextUrl.searchParams);
+  } catch (error) {
+    return scraperErrorResponse(toScraperError(error, "Invalid query parameters."));
+  }
+
+  // --- Perform Scraping ---
+  try {
+    const outcome = await runScrape(scrapeRequest);
+    if (outcome.error) {
+      return outcomeErrorResponse(outcome);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      posts: outcome.images ?? [],
+      after: outcome.after,
+      message: outcome.message,
+      sources: outcome.sources,
+      cached: outcome.cached,
+      cacheAge: outcome.cacheAge,
+      rateLimit: getRedditRateLimitBudget(),
+    });
+  } catch (error) {
+    console.error("Reddit API route error:", error);
+    return scraperErrorResponse(toScraperError(error, "An unexpected error occurred while fetching data from Reddit."));
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Response bodies of the versioned REST API (/api/v1).
+ * Every response has an `ok` flag: true with the requested data, or false with a structured error.
+ * Fields are only ever added within a version, so clients can rely on these shapes.
+ */
+
+import type { TrendyPost } from '@/services/subreddit-scraper';
+import type { ScraperErrorCode } from '@/services/scraper-errors';
+import type { RateLimitBudget } from '@/services/reddit-rate-limiter';
+import type { SourceStatus } from '@/services/batch-scraper';
+
+/**
+ * A failure, with the same stable codes the scrape form uses.
+ */
+export interface ApiError {
+  code: ScraperErrorCode;
+  message: string;
+}
+
+/**
+ * The body of a failed request.
+ */
+export interface ApiErrorResponse {
+  ok: false;
+  error: ApiError;
+
+  /**
+   * Per-target results, when a batch scrape failed for every target.
+   */
+  sources: SourceStatus[] | null;
+
+  /**
+   * The Reddit API budget left, if any request was made.
+   */
+  rateLimit: RateLimitBudget | null;
+}
+
+/**
+ * The body of a successful GET /api/v1/scrape.
+ */
+export interface ScrapeApiSuccessResponse {
+  ok: true;
+
+  /**
+   * The image posts found, in listing order (target order for batches). Empty if none matched.
+   */
+  posts: TrendyPost[];
+
+  /**
+   * The cursor to pass as `after` for the next page, or null if there is none. Always null for batches.
+   */
+  after: string | null;
+
+  /**
+   * A human-readable summary (e.g., how many images were fetched).
+   */
+  message: string | null;
+
+  /**
+   * Per-target results of a batch scrape, or null for a single target.
+   */
+  sources: SourceStatus[] | null;
+
+  /**
+   * True if the posts came from the scrape cache rather than a fresh API request.
+   */
+  cached: boolean;
+
+  /**
+   * Seconds since the cached posts were scraped, or null if they were scraped for this request.
+   */
+  cacheAge: number | null;
+
+  rateLimit: RateLimitBudget | null;
+}
+
+export type ScrapeApiResponse = ScrapeApiSuccessResponse | ApiErrorResponse;
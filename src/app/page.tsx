@@ -1,18 +1,27 @@
 
 'use client';
 
-import type { TrendyPost } from '@/services/subreddit-scraper';
+import type { TrendyPost, RedditSort, RedditSearchSort, RedditTimeWindow } from '@/services/subreddit-scraper';
+import type { ScraperErrorCode } from '@/services/scraper-errors';
+import type { RateLimitBudget } from '@/services/reddit-rate-limiter';
+import type { SourceStatus } from '@/services/batch-scraper';
+import type { ScrapeRunDiff, ScrapeRunSummary } from '@/services/scrape-history';
 import * as React from 'react';
 import { useActionState } from 'react';
 import { useFormStatus } from 'react-dom';
 import { scrapeSubredditAction } from '@/app/actions';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { Loader2, AlertCircle, Image as ImageIcon } from 'lucide-react'; // Removed ThumbsUp as it's not used for toast
+import { Badge } from '@/components/ui/badge';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { Loader2, AlertCircle, History, Image as ImageIcon } from 'lucide-react'; // Removed ThumbsUp as it's not used for toast
 import ImageGrid from '@/components/image-grid';
+import FilterPanel from '@/components/filter-panel';
+import ScrapeHistoryPanel from '@/components/scrape-history-panel';
 import Image from 'next/image';
 import {
   Select,
@@ -27,21 +36,72 @@ import { useToast } from "@/hooks/use-toast"; // Import useToast
 interface ScrapeState {
   images: TrendyPost[] | null;
   error: string | null;
+  errorCode: ScraperErrorCode | null;
   message: string | null;
+  after: string | null;
+  rateLimit: RateLimitBudget | null;
+  sources: SourceStatus[] | null;
+  cached: boolean;
+  cacheAge: number | null;
+  historyDiff: ScrapeRunDiff | null;
+  parameters: Record<string, string> | null;
+  requestKey: string | null;
   timestamp: number;
 }
 
 const initialState: ScrapeState = {
   images: null,
   error: null,
+  errorCode: null,
   message: null,
+  after: null,
+  rateLimit: null,
+  sources: null,
+  cached: false,
+  cacheAge: null,
+  historyDiff: null,
+  parameters: null,
+  requestKey: null,
   timestamp: Date.now(),
 };
 
 // Limit options
-const limitOptions = [10, 25, 50, 100];
+const limitOptions = [10, 25, 50, 100, 250, 500];
 const defaultLimit = 25; // Default limit value
 
+// Listing sort options (mirrors REDDIT_SORTS in the scraper service)
+const sortOptions: { value: RedditSort; label: string }[] = [
+  { value: 'hot', label: 'Hot' },
+  { value: 'new', label: 'New' },
+  { value: 'top', label: 'Top' },
+  { value: 'rising', label: 'Rising' },
+  { value: 'controversial', label: 'Controversial' },
+  { value: 'best', label: 'Best' },
+];
+const defaultSort: RedditSort = 'hot';
+
+// Search result sort options (mirrors REDDIT_SEARCH_SORTS), used instead of the listing sorts while a query is entered
+const searchSortOptions: { value: RedditSearchSort; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'hot', label: 'Hot' },
+  { value: 'top', label: 'Top' },
+  { value: 'new', label: 'New' },
+  { value: 'comments', label: 'Most Comments' },
+];
+const defaultSearchSort: RedditSearchSort = 'relevance';
+
+// Time window options, only used by the 'top' and 'controversial' sorts
+const timeWindowOptions: { value: RedditTimeWindow; label: string }[] = [
+  { value: 'hour', label: 'Past Hour' },
+  { value: 'day', label: 'Past 24 Hours' },
+  { value: 'week', label: 'Past Week' },
+  { value: 'month', label: 'Past Month' },
+  { value: 'year', label: 'Past Year' },
+  { value: 'all', label: 'All Time' },
+];
+const defaultTimeWindow: RedditTimeWindow = 'day';
+const defaultSearchTimeWindow: RedditTimeWindow = 'all'; // Searches look through all posts unless narrowed
+
 // Submit Button Component using useFormStatus
 function SubmitButton() {
   const { pending } = useFormStatus();
@@ -67,9 +127,44 @@ function SubmitButton() {
 
 
 export default function Home() {
-  const [state, formAction] = useActionState(scrapeSubredditAction, initialState);
+  const [state, formAction, isPending] = useActionState(scrapeSubredditAction, initialState);
   const [showInitialMessage, setShowInitialMessage] = React.useState(true);
   const formRef = React.useRef<HTMLFormElement>(null);
+  const [query, setQuery] = React.useState('');
+  const [sort, setSort] = React.useState<RedditSort | RedditSearchSort>(defaultSort);
+  const [timeWindow, setTimeWindow] = React.useState<RedditTimeWindow>(defaultTimeWindow);
+  const isSearch = query.trim() !== '';
+  // Mirrors sortSupportsTimeWindow / searchSortSupportsTimeWindow in the scraper service
+  const timeWindowEnabled = isSearch
+    ? sort === 'relevance' || sort === 'top' || sort === 'comments'
+    : sort === 'top' || sort === 'controversial';
+
+  // Switching between browsing and searching swaps the sort options, so reset the sort and time window
+  const handleQueryChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const nextQuery = event.target.value;
+    const nextIsSearch = nextQuery.trim() !== '';
+    if (nextIsSearch !== isSearch) {
+      setSort(nextIsSearch ? defaultSearchSort : defaultSort);
+      setTimeWindow(nextIsSearch ? defaultSearchTimeWindow : defaultTimeWindow);
+    }
+    setQuery(nextQuery);
+  };
+
+  // Submits a scrape's fields without the form, leaving the form as it is
+  const submitFields = (fields: Record<string, string>) => {
+    const formData = new FormData();
+    Object.entries(fields).forEach(([name, value]) => formData.set(name, value));
+    React.startTransition(() => formAction(formData));
+  };
+  // Re-runs a past scrape with its recorded fields
+  const handleRerun = (run: ScrapeRunSummary) => submitFields(run.parameters);
+  // Continues the scrape shown, even if the form was edited since
+  const loadMore = () => {
+    if (state.parameters && state.after) {
+      submitFields({ ...state.parameters, after: state.after });
+    }
+  };
+  const newMediaIds = React.useMemo(() => new Set(state.historyDiff?.newMediaIds), [state.historyDiff]);
   const { toast } = useToast(); // Initialize useToast hook
 
   // Effect to show toast notification on success
@@ -139,18 +234,18 @@ export default function Home() {
               <CardTitle className="text-xl sm:text-2xl font-bold text-center text-foreground">Subreddit Image Demon</CardTitle>
             </CardHeader>
             <CardContent className="p-4 sm:p-6">
-              <form ref={formRef} action={formAction} className="space-y-4">
+              <form id="scrape-form" ref={formRef} action={formAction} className="space-y-4">
                 <div className="flex flex-col sm:flex-row sm:items-end sm:space-x-4 space-y-4 sm:space-y-0">
-                    {/* Subreddit URL Input */}
+                    {/* Subreddit URL Input (several sources are scraped as a batch) */}
                     <div className="flex-grow space-y-2">
-                      <Label htmlFor="subredditUrl" className="text-sm font-medium">Subreddit URL</Label>
-                      <Input
+                      <Label htmlFor="subredditUrl" className="text-sm font-medium">Subreddits, users, custom feeds or Reddit URLs</Label>
+                      <Textarea
                         id="subredditUrl"
                         name="subredditUrl"
-                        type="url"
-                        placeholder="e.g., https://www.reddit.com/r/pics/"
+                        rows={2}
+                        placeholder="e.g., r/pics, u/some_photographer, u/owner/m/multi or any Reddit URL (one per line or comma-separated)"
                         required
-                        className="bg-input text-foreground placeholder:text-muted-foreground rounded-md text-base"
+                        className="min-h-[64px] bg-input text-foreground placeholder:text-muted-foreground rounded-md text-base"
                       />
                     </div>
 
@@ -174,7 +269,126 @@ export default function Home() {
                     {/* Submit Button Component */}
                     <SubmitButton />
                 </div>
+
+                <div className="flex flex-col sm:flex-row sm:items-end sm:space-x-4 space-y-4 sm:space-y-0">
+                     {/* Search Query Input (optional: searches the sources instead of reading their listings) */}
+                     <div className="flex-grow space-y-2">
+                        <Label htmlFor="query" className="text-sm font-medium">Search (optional)</Label>
+                        <Input
+                          id="query"
+                          name="query"
+                          type="search"
+                          value={query}
+                          onChange={handleQueryChange}
+                          placeholder="e.g., sunset or title:lighthouse"
+                          maxLength={512}
+                          className="bg-input text-foreground placeholder:text-muted-foreground rounded-md text-base"
+                        />
+                     </div>
+
+                     {/* Sort Dropdown */}
+                     <div className="space-y-2 sm:w-auto w-full">
+                        <Label htmlFor="sort" className="text-sm font-medium">Sort By</Label>
+                        <Select name="sort" value={sort} onValueChange={value => setSort(value as RedditSort | RedditSearchSort)}>
+                          <SelectTrigger id="sort" className="w-full sm:w-[160px] bg-input text-foreground rounded-md">
+                            <SelectValue placeholder="Select sort" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(isSearch ? searchSortOptions : sortOptions).map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                     </div>
+
+                     {/* Time Window Dropdown (only for 'top' and 'controversial', or relevance/top/comments searches) */}
+                     <div className="space-y-2 sm:w-auto w-full">
+                        <Label htmlFor="timeWindow" className={`text-sm font-medium ${timeWindowEnabled ? '' : 'text-muted-foreground'}`}>Time Window</Label>
+                        <Select name="timeWindow" value={timeWindow} onValueChange={value => setTimeWindow(value as RedditTimeWindow)} disabled={!timeWindowEnabled}>
+                          <SelectTrigger id="timeWindow" className="w-full sm:w-[160px] bg-input text-foreground rounded-md">
+                            <SelectValue placeholder="Select time window" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {timeWindowOptions.map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                     </div>
+                </div>
+
+                {/* Content Filters (collapsible) */}
+                <FilterPanel />
               </form>
+
+              {/* Past scrapes, to run again */}
+              <ScrapeHistoryPanel refreshKey={state.timestamp} disabled={isPending} onRerun={handleRerun} />
+
+              {/* Per-source results of a batch scrape */}
+              {state.sources && (
+                <div className="mt-4 flex flex-wrap gap-2" aria-label="Batch results by source">
+                  {state.sources.map(source => (
+                    <Badge
+                      key={source.target}
+                      variant={source.status === 'ok' ? 'secondary' : 'destructive'}
+                      title={source.error ?? `${source.imageCount} images from ${source.pagesFetched} page(s)${source.cacheAge !== null ? ' (cached)' : ''}`}
+                    >
+                      {source.target} · {source.status === 'ok' ? source.imageCount : 'failed'}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {/* Cached results: no API requests were spent on them */}
+              {state.cached && state.cacheAge !== null && state.images && (
+                <p className="mt-4 flex items-center gap-1 text-xs text-muted-foreground justify-center sm:justify-start">
+                  <History className="h-3.5 w-3.5" aria-hidden="true" />
+                  Served from cache · scraped {formatDistanceToNowStrict(new Date(state.timestamp - state.cacheAge * 1000), { addSuffix: true })}
+                </p>
+              )}
+
+              {/* Changes since the previous run of the same scrape */}
+              {state.historyDiff && state.images && (
+                <div className="mt-4 text-xs text-muted-foreground text-center sm:text-left">
+                  <p>
+                    {state.historyDiff.newMediaIds.length} new · {state.historyDiff.gone.length} gone since the last run{' '}
+                    {formatDistanceToNowStrict(new Date(state.historyDiff.previousRunAt), { addSuffix: true })}
+                  </p>
+                  {state.historyDiff.gone.length > 0 && (
+                    <details className="mt-1">
+                      <summary className="cursor-pointer hover:text-foreground">Show gone posts</summary>
+                      <ul className="mt-1 space-y-0.5">
+                        {state.historyDiff.gone.map(result => (
+                          <li key={result.mediaId} className="truncate">
+                            <a
+                              href={`https://www.reddit.com/comments/${result.postId.replace(/^t3_/, '')}/`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="underline hover:text-foreground"
+                            >
+                              {result.title || result.postId}
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              )}
+
+              {/* Reddit API budget reported by the last scrape */}
+              {state.rateLimit?.remaining != null && (
+                <p className="mt-4 text-xs text-muted-foreground text-center sm:text-left">
+                  Reddit API budget: {Math.floor(state.rateLimit.remaining)} requests left
+                  {state.rateLimit.resetsAt && (
+                    <> · resets at {new Date(state.rateLimit.resetsAt).toLocaleTimeString()}</>
+                  )}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -204,7 +418,7 @@ export default function Home() {
                <Alert variant="destructive" className="mb-6 rounded-md">
                  <AlertCircle className="h-4 w-4" />
                  <AlertTitle>Error</AlertTitle>
-                 {state.error.includes("credentials") ? (
+                 {state.errorCode === 'CREDENTIALS_MISSING' ? (
                     <AlertDescription>
                         {state.error} See{' '}
                         <code className="font-mono text-xs bg-muted p-1 rounded">.env</code> file setup instructions.
@@ -213,7 +427,7 @@ export default function Home() {
                             here
                         </a> (choose 'script' type). Make sure both <code className="font-mono text-xs bg-muted p-1 rounded">REDDIT_CLIENT_ID</code> and <code className="font-mono text-xs bg-muted p-1 rounded">REDDIT_CLIENT_SECRET</code> are set correctly in the <code className="font-mono text-xs bg-muted p-1 rounded">.env</code> file.
                     </AlertDescription>
-                 ) : state.error.includes("401") ? (
+                 ) : state.errorCode === 'REDDIT_AUTH_FAILED' ? (
                      <AlertDescription>
                          {state.error}. Please double-check that your{' '}
                          <code className="font-mono text-xs bg-muted p-1 rounded">REDDIT_CLIENT_ID</code> and{' '}
@@ -233,7 +447,7 @@ export default function Home() {
             {showInitialMessage && !state.images && !state.error && (
               <div className="text-center text-muted-foreground mt-10 p-6 border border-dashed rounded-lg">
                 <ImageIcon className="mx-auto h-12 w-12 mb-4 text-muted-foreground/70" />
-                <p>Enter a subreddit URL, select the number of images, and click "Get Images" to see results.</p>
+                <p>Enter a subreddit, user (u/name), custom feed (u/owner/m/name) or Reddit URL (or several, to scrape them together; Max Images applies to each), select the number of images and how to sort them, optionally search for a topic, and click "Get Images" to see results.</p>
               </div>
             )}
 
@@ -241,15 +455,37 @@ export default function Home() {
             {!showInitialMessage && state.images && state.images.length === 0 && !state.error && (
                <Alert className="mb-6 rounded-md border-accent">
                  <AlertCircle className="h-4 w-4 text-accent" />
-                 <AlertTitle>No Suitable Images Found</AlertTitle>
-                 <AlertDescription>The Reddit API returned posts, but none contained direct image links matching the criteria (e.g., not videos, galleries, or filtered by allowed domains).</AlertDescription>
+                 <AlertTitle>No Suitable Media Found</AlertTitle>
+                 <AlertDescription>The Reddit API returned posts, but none contained images, galleries, GIFs or videos that could be shown (e.g., text or link posts, media on hosts that aren't allowed, or posts excluded by your filters).</AlertDescription>
                </Alert>
             )}
 
             {/* Display Image Grid */}
             {state.images && state.images.length > 0 && (
                <>
-                 <ImageGrid key={state.timestamp} images={state.images} />
+                 {/* Keyed on the scrape, so "Load more" keeps the selection and filters while a new scrape resets them */}
+                 <ImageGrid key={state.requestKey ?? undefined} images={state.images} newMediaIds={newMediaIds} />
+                 {/* "Load more" resubmits the fields of the scrape shown with the listing cursor from the last page */}
+                 {state.after && state.parameters && (
+                   <div className="flex justify-center mt-6">
+                     <Button
+                       type="button"
+                       onClick={loadMore}
+                       variant="outline"
+                       disabled={isPending}
+                       aria-disabled={isPending}
+                     >
+                       {isPending ? (
+                         <>
+                           <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                           <span>Loading...</span>
+                         </>
+                       ) : (
+                         <span>Load more</span>
+                       )}
+                     </Button>
+                   </div>
+                 )}
                  {/* Area 2 Ad Placeholder Removed */}
                </>
             )}
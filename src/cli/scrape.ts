@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Command-line interface for scraping without the web app, e.g. from cron or shell scripts.
+ * Reads credentials from the environment and .env files like the app does, and accepts the same values as the
+ * scrape form (validated by scrape-request.ts), which it scrapes the same way (see scrape-service.ts).
+ *
+ * Run it with `npm run -s scrape -- <target...> [options]`; see USAGE below, or pass --help.
+ * Posts are written to stdout (or --output) and progress to stderr, so the output can be piped.
+ * The exit code tells what went wrong (see EXIT_CODES).
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { loadEnvConfig } from '@next/env';
+import { parseScrapeRequest } from '../services/scrape-request';
+import { runScrape, type ScrapeOutcome } from '../services/scrape-service';
+import { formatRedditTarget } from '../services/reddit-target';
+import { mapWithConcurrency } from '../services/batch-scraper';
+import { downloadPostMedia } from '../services/media-download';
+import { formatPosts, POST_EXPORT_FORMATS, type PostExportFormat } from '../services/post-export';
+import { InvalidInputError, toScraperError, type ScraperErrorCode } from '../services/scraper-errors';
+
+/**
+ * The exit code for each kind of failure. 0 means every target was scraped (and every file downloaded).
+ */
+export const EXIT_CODES: Record<ScraperErrorCode, number> = {
+  UNEXPECTED_ERROR: 1,
+  INVALID_INPUT: 2, // Also used for unknown options and bad option values
+  INVALID_SUBREDDIT_URL: 3,
+  CREDENTIALS_MISSING: 4,
+  INVALID_CONFIG: 5,
+  REDDIT_AUTH_FAILED: 6,
+  REDDIT_UNREACHABLE: 7,
+  SUBREDDIT_NOT_FOUND: 8,
+  SUBREDDIT_FORBIDDEN: 9,
+  RATE_LIMITED: 10,
+  INVALID_LISTING: 11,
+  REDDIT_API_ERROR: 12,
+  DISALLOWED_IMAGE_HOSTS: 13,
+  MEDIA_DOWNLOAD_FAILED: 14,
+};
+
+const DEFAULT_DOWNLOAD_CONCURRENCY = 4;
+
+const USAGE = `Usage: npm run -s scrape -- <target...> [options]
+
+Scrapes image posts from Reddit and writes them to stdout.
+Targets are subreddits, users, custom feeds or posts, in any form the app accepts (r/pics, u/name, URLs).
+
+Listing:
+  -s, --sort <sort>             hot, new, top, rising, controversial or best (default: hot).
+                                While searching: relevance, hot, top, new or comments.
+  -t, --time-window <window>    hour, day, week, month, year or all, for top and controversial (default: day)
+  -n, --limit <count>           Images to collect per target, 1-500 (default: 25)
+  -q, --query <query>           Search each target instead of reading its listing
+      --after <cursor>          Continue a single target's listing from this cursor (e.g., t3_abc123)
+
+Filters:
+      --nsfw <mode>             include, exclude or only (default: include)
+      --spoilers <mode>         include, exclude or only (default: include)
+      --skip-stickied           Skip posts pinned by moderators
+      --min-score <n>           --min-comments <n>         --min-upvote-percent <n>
+      --max-age-hours <n>
+      --flair-allow <list>      --flair-deny <list>        Comma-separated flairs
+      --title-include <list>    --title-exclude <list>     Comma-separated keywords
+
+Output:
+  -f, --format <format>         ${POST_EXPORT_FORMATS.join(', ')} (default: json)
+  -o, --output <file>           Write to a file instead of stdout
+  -d, --download <dir>          Also download each post's media into <dir>. Files are named
+                                <subreddit>_<post id>_<title>.<ext>; existing files are skipped and
+                                interrupted downloads are resumed, so reruns only fetch what's missing.
+      --concurrency <n>         Downloads at a time (default: ${DEFAULT_DOWNLOAD_CONCURRENCY})
+      --quiet                   Only log errors
+  -h, --help                    Show this help
+
+Exit codes:
+${Object.entries(EXIT_CODES).map(([code, exitCode]) => `  ${String(exitCode).padStart(2)}  ${code}`).join('\n')}
+If some targets fail, the others are still written and the exit code is the first failure's.
+`;
+
+/**
+ * Parses the command line into a validated scrape request and output settings.
+ * @throws InvalidInputError for unknown options or invalid values.
+ */
+function parseCommandLine(args: string[]) {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        sort: { type: 'string', short: 's' },
+        'time-window': { type: 'string', short: 't' },
+        limit: { type: 'string', short: 'n' },
+        query: { type: 'string', short: 'q' },
+        after: { type: 'string' },
+        nsfw: { type: 'string' },
+        spoilers: { type: 'string' },
+        'skip-stickied': { type: 'boolean' },
+        'min-score': { type: 'string' },
+        'min-comments': { type: 'string' },
+        'min-upvote-percent': { type: 'string' },
+        'max-age-hours': { type: 'string' },
+        'flair-allow': { type: 'string' },
+        'flair-deny': { type: 'string' },
+        'title-include': { type: 'string' },
+        'title-exclude': { type: 'string' },
+        format: { type: 'string', short: 'f', default: 'json' },
+        output: { type: 'string', short: 'o' },
+        download: { type: 'string', short: 'd' },
+        concurrency: { type: 'string', default: String(DEFAULT_DOWNLOAD_CONCURRENCY) },
+        quiet: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (e) {
+    throw new InvalidInputError(e instanceof Error ? e.message : String(e));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    return null;
+  }
+
+  // Same fields, and so the same validation and messages, as the scrape form
+  const request = parseScrapeRequest({
+    subredditUrl: positionals.join(','),
+    limit: values.limit,
+    sort: values.sort,
+    timeWindow: values['time-window'],
+    after: values.after,
+    query: values.query,
+    nsfw: values.nsfw,
+    spoilers: values.spoilers,
+    skipStickied: values['skip-stickied'] ? 'true' : undefined,
+    minScore: values['min-score'],
+    minComments: values['min-comments'],
+    minUpvoteRatio: values['min-upvote-percent'],
+    maxAgeHours: values['max-age-hours'],
+    flairAllow: values['flair-allow'],
+    flairDeny: values['flair-deny'],
+    titleInclude: values['title-include'],
+    titleExclude: values['title-exclude'],
+  });
+  if (request.after && request.targets.length > 1) {
+    throw new InvalidInputError("--after can only be used with a single target.");
+  }
+
+  if (!(POST_EXPORT_FORMATS as readonly string[]).includes(values.format)) {
+    throw new InvalidInputError(`Unknown format "${values.format}". Use ${POST_EXPORT_FORMATS.join(', ')}.`);
+  }
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new InvalidInputError("--concurrency must be a positive whole number.");
+  }
+
+  return {
+    request,
+    format: values.format as PostExportFormat,
+    outputPath: values.output ?? null,
+    downloadDirectory: values.download ?? null,
+    concurrency,
+    quiet: values.quiet ?? false,
+  };
+}
+
+/**
+ * Runs the CLI.
+ * @param args The command-line arguments, without the node and script paths.
+ * @returns The exit code.
+ */
+export async function runScrapeCli(args: string[]): Promise<number> {
+  // stdout is reserved for the output; the scraper's progress logs go to stderr
+  console.log = console.info = (...messages: unknown[]) => console.error(...messages);
+
+  let options: ReturnType<typeof parseCommandLine>;
+  try {
+    options = parseCommandLine(args);
+  } catch (error) {
+    const scraperError = toScraperError(error);
+    console.error(`${scraperError.message}\nRun with --help for usage.`);
+    return EXIT_CODES[scraperError.code];
+  }
+  if (!options) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const { request } = options;
+  if (options.quiet) {
+    console.log = console.info = console.warn = () => undefined;
+  }
+
+  // --- Perform Scraping ---
+  // Scraped as the app scrapes (see scrape-service.ts), so media on hosts the app doesn't allow is dropped here too.
+  // In a batch, a failed target doesn't stop the others.
+  const singleTargetPrefix = request.targets.length === 1 ? `${formatRedditTarget(request.targets[0])}: ` : ''; // Batch failures name their target
+  let outcome: ScrapeOutcome;
+  try {
+    outcome = await runScrape(request);
+  } catch (error) {
+    const scraperError = toScraperError(error);
+    console.error(`${singleTargetPrefix}${scraperError.message}`);
+    return EXIT_CODES[scraperError.code];
+  }
+  let firstErrorCode: ScraperErrorCode | null = null;
+  for (const source of outcome.sources ?? []) {
+    if (source.status === 'error') {
+      console.error(`${source.target}: ${source.error}`);
+      firstErrorCode ??= source.errorCode ?? 'UNEXPECTED_ERROR';
+    }
+  }
+  if (outcome.error || !outcome.images) {
+    console.error(`${singleTargetPrefix}${outcome.error ?? 'No images were returned.'}`);
+    return EXIT_CODES[outcome.errorCode ?? 'UNEXPECTED_ERROR']; // Nothing to write; don't overwrite an earlier output file with an empty one
+  }
+  console.log(outcome.message);
+  if (request.targets.length === 1) {
+    console.log(`Next page cursor: ${outcome.after ?? 'none'}`);
+  }
+  const posts = outcome.images;
+
+  // --- Write Output ---
+  const document = formatPosts(posts, options.format);
+  if (options.outputPath) {
+    try {
+      await writeFile(options.outputPath, document);
+    } catch (error) {
+      console.error(`Could not write ${options.outputPath}:`, error instanceof Error ? error.message : error);
+      return EXIT_CODES.UNEXPECTED_ERROR;
+    }
+    console.log(`Wrote ${posts.length} posts to ${options.outputPath}.`);
+  } else {
+    process.stdout.write(document);
+  }
+
+  // --- Download Media ---
+  if (options.downloadDirectory) {
+    const directory = options.downloadDirectory;
+    try {
+      await mkdir(directory, { recursive: true });
+    } catch (error) {
+      console.error(`Could not create ${directory}:`, error instanceof Error ? error.message : error);
+      return EXIT_CODES.UNEXPECTED_ERROR;
+    }
+    const results = await mapWithConcurrency(posts, options.concurrency, async post => {
+      try {
+        const result = await downloadPostMedia(post, directory);
+        console.log(`${result.status === 'skipped' ? 'Already have' : result.status === 'resumed' ? 'Resumed' : 'Downloaded'} ${result.fileName}`);
+        return result;
+      } catch (error) {
+        const scraperError = toScraperError(error);
+        console.error(scraperError.message);
+        firstErrorCode ??= scraperError.code;
+        return null;
+      }
+    });
+    const failedCount = results.filter(result => result === null).length;
+    const skippedCount = results.filter(result => result?.status === 'skipped').length;
+    console.log(`Downloads finished: ${results.length - failedCount - skippedCount} new, ${skippedCount} already present, ${failedCount} failed.`);
+  }
+
+  return firstErrorCode ? EXIT_CODES[firstErrorCode] : 0;
+}
+
+if (require.main === module) {
+  loadEnvConfig(process.cwd(), false, { info: () => undefined, error: console.error }); // .env files, as `next dev` loads them
+  runScrapeCli(process.argv.slice(2)).then(
+    exitCode => {
+      process.exitCode = exitCode;
+    },
+    error => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = EXIT_CODES.UNEXPECTED_ERROR;
+    },
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import type { ContentFilterMode } from '@/services/scrape-filters';
+import * as React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Content flag options (mirrors CONTENT_FILTER_MODES in the filter service)
+const contentModeOptions: { value: ContentFilterMode; label: string }[] = [
+  { value: 'include', label: 'Include' },
+  { value: 'exclude', label: 'Exclude' },
+  { value: 'only', label: 'Only' },
+];
+
+// Near-duplicate threshold bounds, in bits (mirror DEFAULT_HASH_DISTANCE_THRESHOLD and MAX_HASH_DISTANCE_THRESHOLD,
+// which can't be imported here: their module runs server-only image decoding)
+const defaultDuplicateThreshold = 10;
+const maxDuplicateThreshold = 24;
+
+const inputClassName = 'bg-input text-foreground placeholder:text-muted-foreground rounded-md';
+
+function ContentModeSelect({ name, label }: { name: string; label: string }) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={name} className="text-sm font-medium">{label}</Label>
+      <Select name={name} defaultValue="include">
+        <SelectTrigger id={name} className="w-full bg-input text-foreground rounded-md">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {contentModeOptions.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function FilterInput({ name, label, ...props }: { name: string; label: string } & React.ComponentProps<'input'>) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={name} className="text-sm font-medium">{label}</Label>
+      <Input id={name} name={name} className={inputClassName} {...props} />
+    </div>
+  );
+}
+
+/**
+ * Collapsible content filters for the scrape form. The fields stay mounted while collapsed,
+ * so the filters keep applying (and keep their values) when the panel is closed.
+ * Field names match the filter schema in the scrape action.
+ */
+export default function FilterPanel() {
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="filters" className="border-b-0">
+        <AccordionTrigger className="py-2 text-sm">
+          <span className="flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" aria-hidden="true" />
+            Filters
+          </span>
+        </AccordionTrigger>
+        <AccordionContent forceMount className="pt-2">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <ContentModeSelect name="nsfw" label="NSFW Posts" />
+            <ContentModeSelect name="spoilers" label="Spoilers" />
+            <div className="flex items-center gap-2 sm:pt-8">
+              <Switch id="skipStickied" name="skipStickied" />
+              <Label htmlFor="skipStickied" className="text-sm font-medium">Skip pinned posts</Label>
+            </div>
+
+            <FilterInput name="minScore" label="Min Score" type="number" step={1} placeholder="Any" />
+            <FilterInput name="minComments" label="Min Comments" type="number" min={0} step={1} placeholder="Any" />
+            <FilterInput name="minUpvoteRatio" label="Min Upvote %" type="number" min={0} max={100} placeholder="Any" />
+
+            <FilterInput name="flairAllow" label="Only Flairs" placeholder="e.g., OC, Photo" />
+            <FilterInput name="flairDeny" label="Exclude Flairs" placeholder="e.g., Meta, Announcement" />
+            <FilterInput name="maxAgeHours" label="Max Age (hours)" type="number" min={1} placeholder="Any" />
+
+            <FilterInput name="titleInclude" label="Title Contains" placeholder="Any of: sunset, beach" />
+            <FilterInput name="titleExclude" label="Title Excludes" placeholder="Any of: rules, weekly thread" />
+
+            {/* Near-duplicate detection downloads every image, so it's off by default */}
+            <div className="flex items-center gap-2 sm:pt-8">
+              <Switch id="collapseDuplicates" name="collapseDuplicates" />
+              <Label htmlFor="collapseDuplicates" className="text-sm font-medium">Collapse similar images</Label>
+            </div>
+            <FilterInput
+              name="duplicateThreshold"
+              label="Similarity Threshold (bits)"
+              type="number"
+              min={0}
+              max={maxDuplicateThreshold}
+              step={1}
+              placeholder={String(defaultDuplicateThreshold)}
+            />
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
@@ -2,83 +2,546 @@
 'use client';
 
 import type { TrendyPost } from '@/services/subreddit-scraper';
+import type { ApiErrorResponse } from '@/app/api/v1/types';
+import {
+  formatPosts,
+  POST_EXPORT_CONTENT_TYPES,
+  POST_EXPORT_FILE_EXTENSIONS,
+  POST_EXPORT_FORMATS,
+  type PostExportFormat,
+} from '@/services/post-export';
+import * as React from 'react';
 import Image from 'next/image';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { AlertCircle, ArrowBigUp, ChevronLeft, ChevronRight, Download, FileDown, Film, GalleryHorizontal, MessageSquare } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'; // Import Tooltip components
 
 interface ImageGridProps {
   images: TrendyPost[];
+  newMediaIds?: Set<string>; // Media ids not returned by the previous run of the same scrape, marked "New"
 }
 
-export default function ImageGrid({ images }: ImageGridProps) {
+interface ImageGroup {
+  key: string;
+  posts: TrendyPost[]; // One post, or every image of a gallery in gallery order
+}
+
+const placeholderUrl = 'https://picsum.photos/seed/placeholder/400/400'; // Fallback if server misses sanitization
+const allSubredditsValue = '__all__'; // Select value for "no subreddit filter"
+const downloadEndpoint = '/api/v1/download'; // Streams a ZIP of the posted images (see app/api/v1/download/route.ts)
+const exportFormatLabels: Record<PostExportFormat, string> = {
+  json: 'JSON (full metadata)',
+  ndjson: 'NDJSON (one post per line)',
+  csv: 'CSV (spreadsheets)',
+  markdown: 'Markdown gallery',
+  rss: 'RSS feed',
+  atom: 'Atom feed',
+};
+
+/**
+ * Groups images from the same gallery into a single entry, keeping first-seen order.
+ */
+function groupImages(images: TrendyPost[]): ImageGroup[] {
+  const groups: ImageGroup[] = [];
+  const galleries = new Map<string, ImageGroup>();
+
+  images.forEach((post, index) => {
+    if (!post.galleryId) {
+      groups.push({ key: `${index}-${post.imageUrl}`, posts: [post] });
+      return;
+    }
+    let gallery = galleries.get(post.galleryId);
+    if (!gallery) {
+      gallery = { key: post.galleryId, posts: [] };
+      galleries.set(post.galleryId, gallery);
+      groups.push(gallery);
+    }
+    gallery.posts.push(post);
+  });
+
+  galleries.forEach(gallery => gallery.posts.sort((a, b) => (a.galleryIndex ?? 0) - (b.galleryIndex ?? 0)));
+  return groups;
+}
+
+/**
+ * Counts images per subreddit, keeping first-seen order.
+ */
+function countBySubreddit(images: TrendyPost[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  images.forEach(post => counts.set(post.subreddit, (counts.get(post.subreddit) ?? 0) + 1));
+  return counts;
+}
+
+/**
+ * Formats large counts compactly (e.g., 12300 -> "12.3k").
+ */
+function formatCount(count: number): string {
+  return Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 }).format(count);
+}
+
+/**
+ * Formats a duration in seconds as m:ss (e.g., 74 -> "1:14").
+ */
+function formatDuration(seconds: number): string {
+  const wholeSeconds = Math.round(seconds);
+  return `${Math.floor(wholeSeconds / 60)}:${String(wholeSeconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * A muted, looping video that shows its poster frame until it scrolls into view,
+ * and only then loads and plays. It pauses again when scrolled away.
+ */
+function LazyVideo({ src, poster, label, onError }: { src: string; poster: string; label: string; onError: () => void }) {
+  const videoRef = React.useRef<HTMLVideoElement>(null);
+
+  React.useEffect(() => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        video.play().catch(() => undefined); // Autoplay can be refused (e.g., data saver); the poster stays visible
+      } else {
+        video.pause();
+      }
+    }, { threshold: 0.5 });
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <video
+      ref={videoRef}
+      src={src}
+      poster={poster}
+      aria-label={label}
+      muted
+      loop
+      playsInline
+      preload="none"
+      className="absolute inset-0 h-full w-full object-cover"
+      onError={onError}
+    />
+  );
+}
+
+interface ImageCardProps {
+  posts: TrendyPost[];
+  isNew: boolean;
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+}
+
+function ImageCard({ posts, isNew, selected, onSelectedChange }: ImageCardProps) {
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const [failedUrls, setFailedUrls] = React.useState<Set<string>>(() => new Set());
+
+  const post = posts[activeIndex];
+  const isGallery = posts.length > 1;
+
+  // imageUrl is now assumed to be valid and allowed by the server action
+  // If server action filters out invalid URLs, this check is less critical, but kept as safeguard
+  const imageUrlToUse = post.imageUrl || placeholderUrl;
+  const imageTitle = post.title || 'Scraped image';
+  const isPlaceholder = imageUrlToUse === placeholderUrl;
+  const hasFailed = failedUrls.has(imageUrlToUse);
+  const postedAgo = post.createdUtc ? formatDistanceToNowStrict(new Date(post.createdUtc * 1000), { addSuffix: true }) : null;
+  const dimensions = post.width && post.height ? `${post.width}×${post.height}` : null;
+
+  const showPrevious = () => setActiveIndex(index => (index - 1 + posts.length) % posts.length);
+  const showNext = () => setActiveIndex(index => (index + 1) % posts.length);
+
+  return (
+    <Card className={`overflow-hidden shadow-md hover:shadow-xl transition-shadow duration-300 group rounded-lg flex flex-col ${selected ? 'ring-2 ring-primary' : ''}`}>
+      <CardContent className="p-0 aspect-square relative w-full">
+        {hasFailed ? (
+          // Display a placeholder visual within the card on error
+          <div className="absolute inset-0 flex items-center justify-center bg-muted text-muted-foreground text-xs p-2 text-center">
+            {post.video ? 'Video' : 'Image'} failed to load
+          </div>
+        ) : post.video ? (
+          <LazyVideo
+            key={post.video.url}
+            src={post.video.url}
+            poster={imageUrlToUse}
+            label={isGallery ? `${imageTitle} (${activeIndex + 1} of ${posts.length})` : imageTitle}
+            onError={() => {
+              console.warn(`Failed to load video: ${post.video?.url}`);
+              setFailedUrls(previous => new Set(previous).add(imageUrlToUse));
+            }}
+          />
+        ) : (
+          <Image
+            key={imageUrlToUse}
+            src={imageUrlToUse}
+            alt={isGallery ? `${imageTitle} (${activeIndex + 1} of ${posts.length})` : imageTitle}
+            fill // Use fill for responsive aspect ratio
+            sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, (max-width: 1280px) 25vw, 20vw" // Adjusted sizes
+            style={{ objectFit: 'cover' }} // Ensures image covers the area
+            className={`transition-transform duration-300 ease-in-out group-hover:scale-105 ${isPlaceholder ? 'opacity-70' : ''}`} // Dim placeholder slightly
+            unoptimized={post.mediaType === 'gif'} // Resizing would drop the animation
+            onError={() => {
+              console.warn(`Failed to load image: ${imageUrlToUse}`);
+              setFailedUrls(previous => new Set(previous).add(imageUrlToUse));
+            }}
+          />
+        )}
+
+        {/* Media type badge for animations and videos */}
+        {post.mediaType !== 'image' && !hasFailed && (
+          <Badge variant="secondary" className="absolute top-2 left-2 gap-1 opacity-90">
+            {post.mediaType === 'video' && <Film className="h-3 w-3" aria-hidden="true" />}
+            {post.mediaType === 'gif' ? 'GIF' : post.video?.durationSeconds ? formatDuration(post.video.durationSeconds) : 'Video'}
+          </Badge>
+        )}
+
+        {/* New since the previous run of the same scrape */}
+        {isNew && (
+          <Badge className="absolute bottom-2 right-2 opacity-90">New</Badge>
+        )}
+
+        {/* Selection for download; a gallery is selected as a whole */}
+        <div className={`absolute bottom-2 left-2 flex rounded-sm bg-background/80 p-1 transition-opacity ${selected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+          <Checkbox
+            checked={selected}
+            onCheckedChange={checked => onSelectedChange(checked === true)}
+            aria-label={`Select ${isGallery ? 'gallery' : post.video ? 'video' : 'image'} for download: ${imageTitle}`}
+          />
+        </div>
+
+        {/* Gallery controls: position badge and previous/next buttons */}
+        {isGallery && (
+          <>
+            <Badge variant="secondary" className="absolute top-2 right-2 gap-1 opacity-90">
+              <GalleryHorizontal className="h-3 w-3" aria-hidden="true" />
+              {activeIndex + 1} / {posts.length}
+            </Badge>
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              onClick={showPrevious}
+              aria-label="Previous image in gallery"
+              className="absolute left-2 top-1/2 -translate-y-1/2 h-8 w-8 rounded-full opacity-0 group-hover:opacity-90 focus-visible:opacity-90 transition-opacity"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              onClick={showNext}
+              aria-label="Next image in gallery"
+              className="absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8 rounded-full opacity-0 group-hover:opacity-90 focus-visible:opacity-90 transition-opacity"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </CardContent>
+      {/* Use Tooltip for potentially long titles */}
+       <CardFooter className="p-2 bg-card/80 backdrop-blur-sm mt-auto flex-col items-start gap-1">
+         <Tooltip>
+           <TooltipTrigger asChild>
+             <a
+               href={post.permalink}
+               target="_blank"
+               rel="noopener noreferrer"
+               className="text-xs text-foreground truncate w-full hover:underline" // Use foreground for better contrast
+               aria-label={`${imageTitle} (open thread on Reddit)`}
+             >
+               {imageTitle}
+             </a>
+           </TooltipTrigger>
+           <TooltipContent side="bottom" align="start">
+             <p className="max-w-xs">{imageTitle}</p> {/* Limit width in tooltip */}
+             {dimensions && <p className="text-muted-foreground">{dimensions}</p>}
+           </TooltipContent>
+         </Tooltip>
+
+         {/* Post details: where, who and when */}
+         <p className="text-[11px] text-muted-foreground truncate w-full">
+           r/{post.subreddit} · u/{post.author}{postedAgo && <> · {postedAgo}</>}
+         </p>
+
+         {/* Crosspost origin and other posts showing the same media */}
+         {(post.crosspostParent || post.alsoPostedIn.length > 0) && (
+           <p className="text-[11px] text-muted-foreground truncate w-full">
+             {post.crosspostParent && (
+               <>
+                 Crossposted from{' '}
+                 <a href={post.crosspostParent.permalink} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                   r/{post.crosspostParent.subreddit}
+                 </a>
+               </>
+             )}
+             {post.crosspostParent && post.alsoPostedIn.length > 0 && ' · '}
+             {post.alsoPostedIn.length > 0 && (
+               <>
+                 Also posted in{' '}
+                 {post.alsoPostedIn.map((reference, index) => (
+                   <React.Fragment key={reference.postId}>
+                     {index > 0 && ', '}
+                     <a href={reference.permalink} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                       r/{reference.subreddit}
+                     </a>
+                   </React.Fragment>
+                 ))}
+               </>
+             )}
+           </p>
+         )}
+
+         {/* Engagement: why the post is trendy */}
+         <div className="flex items-center gap-3 text-[11px] text-muted-foreground">
+           <span className="flex items-center gap-0.5" title={`${Math.round(post.upvoteRatio * 100)}% upvoted`}>
+             <ArrowBigUp className="h-3.5 w-3.5" aria-hidden="true" />
+             {formatCount(post.score)}
+             <span className="sr-only"> points</span>
+           </span>
+           <span className="flex items-center gap-0.5">
+             <MessageSquare className="h-3 w-3" aria-hidden="true" />
+             {formatCount(post.numComments)}
+             <span className="sr-only"> comments</span>
+           </span>
+         </div>
+
+         {/* Flair and content flags */}
+         {(post.flair || post.over18 || post.spoiler || post.stickied || post.duplicateCount > 0) && (
+           <div className="flex flex-wrap gap-1">
+             {post.stickied && <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">Pinned</Badge>}
+             {post.over18 && <Badge variant="destructive" className="px-1.5 py-0 text-[10px]">NSFW</Badge>}
+             {post.spoiler && <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">Spoiler</Badge>}
+             {post.flair && <Badge variant="outline" className="px-1.5 py-0 text-[10px] max-w-full truncate">{post.flair}</Badge>}
+             {post.duplicateCount > 0 && (
+               <Badge variant="outline" className="px-1.5 py-0 text-[10px]" title="Re-encoded or resized copies found in other posts">
+                 +{post.duplicateCount} similar
+               </Badge>
+             )}
+           </div>
+         )}
+       </CardFooter>
+    </Card>
+  );
+}
+
+interface ImageGroupGridProps extends ImageGridProps {
+  selectedIds: Set<string>; // Media ids of the selected images
+  onSelectionChange: (posts: TrendyPost[], selected: boolean) => void;
+}
+
+function ImageGroupGrid({ images, newMediaIds, selectedIds, onSelectionChange }: ImageGroupGridProps) {
+  const groups = groupImages(images);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+      {groups.map((group, index) => {
+        // Basic check if URL is truly empty/null just in case
+        if (group.posts.every(post => !post.imageUrl)) {
+            console.warn(`Image post at index ${index} has missing URL.`);
+            // Render a placeholder card for missing URLs
+            return (
+                 <Card key={`missing-${index}`} className="overflow-hidden shadow-md flex items-center justify-center bg-muted aspect-square rounded-lg">
+                     <p className="text-xs text-muted-foreground p-2 text-center">Image URL missing or invalid</p>
+                 </Card>
+            );
+        }
+
+        return (
+          <ImageCard
+            key={group.key}
+            posts={group.posts}
+            isNew={group.posts.some(post => newMediaIds?.has(post.mediaId))}
+            selected={group.posts.every(post => selectedIds.has(post.mediaId))}
+            onSelectedChange={selected => onSelectionChange(group.posts, selected)}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ImageGrid({ images, newMediaIds }: ImageGridProps) {
+  const [subredditFilter, setSubredditFilter] = React.useState(allSubredditsValue);
+  const [groupBySubreddit, setGroupBySubreddit] = React.useState(false);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(() => new Set());
+  const [downloadError, setDownloadError] = React.useState<string | null>(null);
+  const downloadFormRef = React.useRef<HTMLFormElement>(null);
+  const downloadPostsRef = React.useRef<HTMLInputElement>(null);
+  const downloadFrameName = `zip-download-${React.useId()}`;
+
   if (!images || images.length === 0) {
     return null; // Handled by parent component now
   }
 
-  const placeholderUrl = 'https://picsum.photos/seed/placeholder/400/400'; // Fallback if server misses sanitization
+  // Filtering and grouping only make sense when images come from more than one subreddit (e.g., a batch scrape)
+  const subredditCounts = countBySubreddit(images);
+  const hasSeveralSubreddits = subredditCounts.size > 1;
+  const visibleImages = subredditFilter === allSubredditsValue
+    ? images
+    : images.filter(post => post.subreddit === subredditFilter);
+  const selectedImages = images.filter(post => selectedIds.has(post.mediaId));
+
+  const changeSelection = (posts: TrendyPost[], selected: boolean) => {
+    setSelectedIds(previous => {
+      const next = new Set(previous);
+      posts.forEach(post => (selected ? next.add(post.mediaId) : next.delete(post.mediaId)));
+      return next;
+    });
+  };
+
+  // Downloads the selected images, or all of them if none are selected, as a ZIP.
+  // A form submission lets the browser save the streamed archive directly instead of buffering it in the page.
+  // It targets a hidden frame, so an error response is shown here instead of replacing the page.
+  const downloadZip = () => {
+    if (!downloadFormRef.current || !downloadPostsRef.current) return;
+    setDownloadError(null);
+    downloadPostsRef.current.value = JSON.stringify(selectedImages.length > 0 ? selectedImages : images);
+    downloadFormRef.current.submit();
+  };
+
+  // The archive is saved as an attachment without loading the frame, so a page loading in it is an error response
+  const showDownloadError = (event: React.SyntheticEvent<HTMLIFrameElement>) => {
+    const body = event.currentTarget.contentDocument?.body?.textContent?.trim();
+    if (!body) return; // The frame's initial blank page
+    try {
+      setDownloadError((JSON.parse(body) as ApiErrorResponse).error.message);
+    } catch (_) {
+      setDownloadError("The download could not be started. Please try again.");
+    }
+  };
+
+  // Exports the selected images, or all of them, as a document generated in the page
+  const exportImages = (format: PostExportFormat) => {
+    const contents = formatPosts(selectedImages.length > 0 ? selectedImages : images, format);
+    const url = URL.createObjectURL(new Blob([contents], { type: POST_EXPORT_CONTENT_TYPES[format] }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `reddit-images-${new Date().toISOString().slice(0, 10)}.${POST_EXPORT_FILE_EXTENSIONS[format]}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000); // Give the browser time to start the download
+  };
 
   return (
     // Added TooltipProvider to wrap the grid
     <TooltipProvider delayDuration={100}>
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-          {images.map((post, index) => {
-            // imageUrl is now assumed to be valid and allowed by the server action
-            // If server action filters out invalid URLs, this check is less critical, but kept as safeguard
-            const imageUrlToUse = post.imageUrl || placeholderUrl;
-            const imageTitle = post.title || 'Scraped image';
-            const isPlaceholder = imageUrlToUse === placeholderUrl;
-
-            // Basic check if URL is truly empty/null just in case
-            if (!imageUrlToUse) {
-                console.warn(`Image post at index ${index} has missing URL.`);
-                // Render a placeholder card for missing URLs
-                return (
-                     <Card key={`missing-${index}`} className="overflow-hidden shadow-md flex items-center justify-center bg-muted aspect-square rounded-lg">
-                         <p className="text-xs text-muted-foreground p-2 text-center">Image URL missing or invalid</p>
-                     </Card>
-                );
-            }
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-4">
+          {hasSeveralSubreddits && (
+            <>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="subredditFilter" className="text-sm font-medium">Subreddit</Label>
+                <Select value={subredditFilter} onValueChange={setSubredditFilter}>
+                  <SelectTrigger id="subredditFilter" className="w-[200px] bg-input text-foreground rounded-md">
+                    <SelectValue placeholder="All subreddits" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={allSubredditsValue}>All subreddits ({images.length})</SelectItem>
+                    {[...subredditCounts].map(([subreddit, count]) => (
+                      <SelectItem key={subreddit} value={subreddit}>
+                        r/{subreddit} ({count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="groupBySubreddit"
+                  checked={groupBySubreddit}
+                  onCheckedChange={setGroupBySubreddit}
+                  disabled={subredditFilter !== allSubredditsValue}
+                />
+                <Label htmlFor="groupBySubreddit" className="text-sm font-medium">Group by subreddit</Label>
+              </div>
+            </>
+          )}
 
-            return (
-              <Card key={index} className="overflow-hidden shadow-md hover:shadow-xl transition-shadow duration-300 group rounded-lg flex flex-col">
-                <CardContent className="p-0 aspect-square relative w-full">
-                   <Image
-                      src={imageUrlToUse}
-                      alt={imageTitle}
-                      fill // Use fill for responsive aspect ratio
-                      sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, (max-width: 1280px) 25vw, 20vw" // Adjusted sizes
-                      style={{ objectFit: 'cover' }} // Ensures image covers the area
-                      className={`transition-transform duration-300 ease-in-out group-hover:scale-105 ${isPlaceholder ? 'opacity-70' : ''}`} // Dim placeholder slightly
-                      // Improved error handling: Display a placeholder visual within the card on error
-                      onError={(e) => {
-                        console.warn(`Failed to load image: ${imageUrlToUse}`);
-                        // Target the img element directly and replace src, or hide it and show a placeholder div
-                        e.currentTarget.style.display = 'none'; // Hide the broken image
-                        // Optionally add a placeholder element dynamically, or have one ready with CSS
-                        const placeholderDiv = document.createElement('div');
-                        placeholderDiv.className = 'absolute inset-0 flex items-center justify-center bg-muted text-muted-foreground text-xs p-2 text-center';
-                        placeholderDiv.textContent = 'Image failed to load';
-                        e.currentTarget.parentElement?.appendChild(placeholderDiv);
-                      }}
-                    />
-                </CardContent>
-                {/* Use Tooltip for potentially long titles */}
-                 <CardFooter className="p-2 bg-card/80 backdrop-blur-sm mt-auto">
-                   <Tooltip>
-                     <TooltipTrigger asChild>
-                       <p className="text-xs text-foreground truncate w-full" aria-label={imageTitle}> {/* Use foreground for better contrast */}
-                         {imageTitle}
-                       </p>
-                     </TooltipTrigger>
-                     <TooltipContent side="bottom" align="start">
-                       <p className="max-w-xs">{imageTitle}</p> {/* Limit width in tooltip */}
-                     </TooltipContent>
-                   </Tooltip>
-                 </CardFooter>
-              </Card>
-            );
-          })}
+          {/* Bulk download */}
+          <div className="flex items-center gap-2 sm:ml-auto">
+            {selectedImages.length > 0 && (
+              <>
+                <span className="text-sm text-muted-foreground">{selectedImages.length} selected</span>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                  Clear
+                </Button>
+              </>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" size="sm">
+                  <FileDown className="mr-2 h-4 w-4" aria-hidden="true" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>
+                  {selectedImages.length > 0 ? `Export ${selectedImages.length} selected` : `Export all ${images.length}`}
+                </DropdownMenuLabel>
+                {POST_EXPORT_FORMATS.map(format => (
+                  <DropdownMenuItem key={format} onSelect={() => exportImages(format)}>
+                    {exportFormatLabels[format]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button type="button" variant="outline" size="sm" onClick={downloadZip}>
+              <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+              {selectedImages.length > 0 ? `Download ${selectedImages.length} as ZIP` : `Download all as ZIP`}
+            </Button>
+            <form ref={downloadFormRef} method="post" action={downloadEndpoint} target={downloadFrameName} className="hidden">
+              <input ref={downloadPostsRef} type="hidden" name="posts" />
+            </form>
+            <iframe name={downloadFrameName} title="ZIP download" className="hidden" onLoad={showDownloadError} />
+          </div>
         </div>
+
+        {downloadError && (
+          <Alert variant="destructive" className="mb-4 rounded-md">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Download Failed</AlertTitle>
+            <AlertDescription>{downloadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {hasSeveralSubreddits && groupBySubreddit && subredditFilter === allSubredditsValue ? (
+          <div className="space-y-8">
+            {[...subredditCounts.keys()].map(subreddit => (
+              <section key={subreddit} aria-label={`Images from r/${subreddit}`}>
+                <h2 className="text-lg font-semibold text-foreground mb-3">r/{subreddit}</h2>
+                <ImageGroupGrid
+                  images={images.filter(post => post.subreddit === subreddit)}
+                  newMediaIds={newMediaIds}
+                  selectedIds={selectedIds}
+                  onSelectionChange={changeSelection}
+                />
+              </section>
+            ))}
+          </div>
+        ) : (
+          <ImageGroupGrid images={visibleImages} newMediaIds={newMediaIds} selectedIds={selectedIds} onSelectionChange={changeSelection} />
+        )}
     </TooltipProvider>
   );
 }
@@ -0,0 +1,90 @@
+'use client';
+
+import type { ScrapeRunSummary } from '@/services/scrape-history';
+import * as React from 'react';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { getScrapeHistoryAction } from '@/app/actions';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+
+interface ScrapeHistoryPanelProps {
+  refreshKey: number; // Changes after each scrape, to reload the list
+  disabled: boolean; // True while a scrape is running
+  onRerun: (run: ScrapeRunSummary) => void;
+}
+
+/**
+ * Describes what a run asked for beyond its targets, e.g. `"sunset" · top (week) · 50`.
+ */
+function describeParameters(parameters: Record<string, string>): string {
+  const parts: string[] = [];
+  if (parameters.query) parts.push(`"${parameters.query}"`);
+  if (parameters.sort) parts.push(parameters.timeWindow ? `${parameters.sort} (${parameters.timeWindow})` : parameters.sort);
+  if (parameters.limit) parts.push(parameters.limit);
+  return parts.join(' · ');
+}
+
+/**
+ * Collapsible list of past scrapes, newest first, each with a button to run it again with the same fields.
+ */
+export default function ScrapeHistoryPanel({ refreshKey, disabled, onRerun }: ScrapeHistoryPanelProps) {
+  const [runs, setRuns] = React.useState<ScrapeRunSummary[] | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    getScrapeHistoryAction()
+      .then(history => { if (!cancelled) setRuns(history); })
+      .catch(error => console.warn('Could not load scrape history:', error));
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="history" className="border-b-0">
+        <AccordionTrigger className="py-2 text-sm">
+          <span className="flex items-center gap-2">
+            <History className="h-4 w-4" aria-hidden="true" />
+            History{runs && runs.length > 0 ? ` (${runs.length})` : ''}
+          </span>
+        </AccordionTrigger>
+        <AccordionContent className="pt-2">
+          {runs === null ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scrapes yet. Each scrape you run is listed here.</p>
+          ) : (
+            <ul className="divide-y">
+              {runs.map(run => (
+                <li key={run.id} className="flex items-center gap-3 py-2">
+                  <div className="min-w-0 flex-grow">
+                    <p className="truncate text-sm font-medium text-foreground" title={run.targets.join(', ')}>
+                      {run.targets.join(', ')}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {describeParameters(run.parameters)}
+                      {' · '}
+                      <time dateTime={new Date(run.createdAt).toISOString()} title={new Date(run.createdAt).toLocaleString()}>
+                        {formatDistanceToNowStrict(new Date(run.createdAt), { addSuffix: true })}
+                      </time>
+                      {' · '}
+                      {run.error ? (
+                        <span className="text-destructive" title={run.error.message}>failed</span>
+                      ) : (
+                        <>{run.resultCount} images</>
+                      )}
+                    </p>
+                  </div>
+                  <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => onRerun(run)}>
+                    <RotateCcw className="mr-2 h-3.5 w-3.5" aria-hidden="true" />
+                    Re-run
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
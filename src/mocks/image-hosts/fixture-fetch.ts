@@ -0,0 +1,30 @@
+/**
+ * @fileoverview A `fetch` stand-in serving external image host API responses from local fixtures,
+ * so the resolvers can run without network access:
+ *
+ *   registerImageHostResolver(createImgurResolver({ clientId: 'mock', fetch: createImageHostFixtureFetch() }));
+ *
+ * Any Imgur album id serves the album fixture, except "MkMissing", which responds 404.
+ */
+
+import type { FetchLike } from '../../services/reddit-client';
+import imgurAlbum from './fixtures/imgur-album.json';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Creates a fetch implementation answering Imgur API album requests from fixtures.
+ * Requests for anything else respond 404.
+ */
+export function createImageHostFixtureFetch(): FetchLike {
+  return async input => {
+    const url = new URL(input);
+    const albumMatch = url.pathname.match(/^\/3\/album\/([^/]+)\/images$/);
+    if (albumMatch && albumMatch[1] !== 'MkMissing') {
+      return jsonResponse(200, imgurAlbum);
+    }
+    return jsonResponse(404, { data: { error: 'Not found' }, success: false, status: 404 });
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Local stand-in for the Reddit API, serving canned token and listing responses.
+ *
+ * Run it with `npm run mock:reddit`, then point the app at it:
+ *   REDDIT_AUTH_BASE_URL=http://localhost:9003 REDDIT_API_BASE_URL=http://localhost:9003 npm run dev
+ *
+ * Any subreddit name serves the fixture listing (two pages, linked by `after`), as do user profiles
+ * (/user/<name>/submitted) and custom feeds (/user/<owner>/m/<multi>/<sort>). Fixture posts can also be fetched by
+ * fullname (/by_id/t3_mk002,t3_mk003); unknown ids are left out of the listing. These names, used as the subreddit,
+ * user or feed owner, trigger error paths:
+ * - r/notfound: 404
+ * - r/private: 403
+ * - r/ratelimited: 429 with Retry-After
+ * - r/malformed: 200 with a body that is not a valid Listing
+ * - r/flaky: 503 on every other request
+ * - r/revoked: 401 for the first access token issued, as if it had been revoked
+ * Client ID "invalid" is rejected by the token endpoint with 401.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import listingPage1 from './fixtures/listing-page-1.json';
+import listingPage2 from './fixtures/listing-page-2.json';
+import malformedListing from './fixtures/malformed-listing.json';
+
+const DEFAULT_PORT = 9003;
+const RATE_LIMIT_WINDOW_SECONDS = 600;
+const RATE_LIMIT_BUDGET = 1000;
+
+interface MockState {
+  issuedTokens: string[];
+  requestsUsed: number;
+  flakyRequests: number;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=UTF-8', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function rateLimitHeaders(state: MockState): Record<string, string> {
+  return {
+    'X-Ratelimit-Used': String(state.requestsUsed),
+    'X-Ratelimit-Remaining': (RATE_LIMIT_BUDGET - state.requestsUsed).toFixed(1),
+    'X-Ratelimit-Reset': String(RATE_LIMIT_WINDOW_SECONDS),
+  };
+}
+
+function handleAccessToken(req: IncomingMessage, res: ServerResponse, state: MockState): void {
+  const authorization = req.headers.authorization ?? '';
+  const credentials = Buffer.from(authorization.replace(/^Basic /, ''), 'base64').toString();
+  const [clientId, clientSecret] = credentials.split(':');
+
+  if (!clientId || !clientSecret || clientId === 'invalid') {
+    sendJson(res, 401, { message: 'Unauthorized', error: 401 });
+    return;
+  }
+
+  const token = `mock-token-${state.issuedTokens.length + 1}`;
+  state.issuedTokens.push(token);
+  sendJson(res, 200, { access_token: token, token_type: 'bearer', expires_in: 86400, scope: '*' });
+}
+
+/**
+ * Checks the request's bearer token, answering 401 if it was never issued.
+ * @returns The token, or null if the request was rejected.
+ */
+function authorize(req: IncomingMessage, res: ServerResponse, state: MockState): string | null {
+  const token = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+  if (!state.issuedTokens.includes(token)) {
+    sendJson(res, 401, { message: 'Unauthorized', error: 401 });
+    return null;
+  }
+  state.requestsUsed++;
+  return token;
+}
+
+function handleById(req: IncomingMessage, res: ServerResponse, fullnames: string, state: MockState): void {
+  if (!authorize(req, res, state)) {
+    return;
+  }
+  const requested = new Set(fullnames.toLowerCase().split(','));
+  const children = [...listingPage1.data.children, ...listingPage2.data.children].filter(child => requested.has(child.data.name));
+  sendJson(res, 200, { kind: 'Listing', data: { after: null, before: null, dist: children.length, children } }, rateLimitHeaders(state));
+}
+
+function handleListing(req: IncomingMessage, res: ServerResponse, url: URL, state: MockState): void {
+  const token = authorize(req, res, state);
+  if (!token) {
+    return;
+  }
+
+  const headers = rateLimitHeaders(state);
+  // The subreddit name, or the username for /user/ paths
+  const sourceName = url.pathname.split('/')[2]?.toLowerCase();
+
+  switch (sourceName) {
+    case 'notfound':
+      sendJson(res, 404, { message: 'Not Found', error: 404 }, headers);
+      return;
+    case 'private':
+      sendJson(res, 403, { reason: 'private', message: 'Forbidden', error: 403 }, headers);
+      return;
+    case 'ratelimited':
+      sendJson(res, 429, { message: 'Too Many Requests', error: 429 }, { ...headers, 'Retry-After': '1' });
+      return;
+    case 'malformed':
+      sendJson(res, 200, malformedListing, headers);
+      return;
+    case 'flaky':
+      state.flakyRequests++;
+      if (state.flakyRequests % 2 === 1) {
+        sendJson(res, 503, { message: 'Service Unavailable', error: 503 }, headers);
+        return;
+      }
+      break;
+    case 'revoked':
+      if (token === state.issuedTokens[0]) {
+        sendJson(res, 401, { message: 'Unauthorized', error: 401 }, headers);
+        return;
+      }
+      break;
+  }
+
+  // The first page ends with `after`; any cursor serves the second (last) page
+  const page = url.searchParams.get('after') ? listingPage2 : listingPage1;
+  sendJson(res, 200, page, headers);
+}
+
+/**
+ * Starts the mock Reddit server.
+ * @param port The port to listen on. Pass 0 to pick a free port.
+ * @returns The listening server.
+ */
+export function startMockRedditServer(port: number = DEFAULT_PORT): Promise<Server> {
+  const state: MockState = { issuedTokens: [], requestsUsed: 0, flakyRequests: 0 };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    console.log(`[mock-reddit] ${req.method} ${url.pathname}${url.search}`);
+
+    if (req.method === 'POST' && url.pathname === '/api/v1/access_token') {
+      handleAccessToken(req, res, state);
+      return;
+    }
+    const isListingPath = /^\/r\/[^/]+\/[a-z]+\/?$/i.test(url.pathname)
+      || /^\/user\/[^/]+\/submitted\/?$/i.test(url.pathname)
+      || /^\/user\/[^/]+\/m\/[^/]+\/[a-z]+\/?$/i.test(url.pathname);
+    if (req.method === 'GET' && isListingPath) {
+      handleListing(req, res, url, state);
+      return;
+    }
+    const byIdMatch = url.pathname.match(/^\/by_id\/([^/]+)\/?$/i);
+    if (req.method === 'GET' && byIdMatch) {
+      handleById(req, res, byIdMatch[1], state);
+      return;
+    }
+    sendJson(res, 404, { message: 'Not Found', error: 404 });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve(server));
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.MOCK_REDDIT_PORT) || DEFAULT_PORT;
+  startMockRedditServer(port).then(() => {
+    console.log(`Mock Reddit API listening on http://localhost:${port}`);
+    console.log(`Set REDDIT_AUTH_BASE_URL and REDDIT_API_BASE_URL to http://localhost:${port} to use it.`);
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Builds TrendyPost values for tests, with plausible defaults for every field:
+ *
+ *   createPost({ mediaId: 'a', imageUrl: 'https://i.redd.it/a.jpg' })
+ */
+
+import type { TrendyPost } from '../services/subreddit-scraper';
+
+/**
+ * Returns an image post from r/pics, with the given fields replaced.
+ */
+export function createPost(overrides: Partial<TrendyPost> = {}): TrendyPost {
+  return {
+    imageUrl: 'https://i.redd.it/abc.jpg',
+    mediaType: 'image',
+    video: null,
+    mediaId: 'reddit:abc',
+    title: 'A post',
+    resolvedBy: 'direct',
+    postId: 't3_abc',
+    author: 'someone',
+    subreddit: 'pics',
+    permalink: 'https://www.reddit.com/r/pics/comments/abc/a_post/',
+    createdUtc: 1_700_000_000,
+    score: 1,
+    upvoteRatio: 1,
+    numComments: 0,
+    flair: null,
+    over18: false,
+    spoiler: false,
+    stickied: false,
+    width: null,
+    height: null,
+    crosspostParent: null,
+    alsoPostedIn: [],
+    duplicateCount: 0,
+    ...overrides,
+  };
+}
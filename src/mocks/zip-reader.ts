@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Reads the stored (uncompressed) ZIP archives written by zip-writer.ts, for tests.
+ * Entries are found through the central directory, and each one's CRC is checked against its data.
+ */
+
+import { crc32 } from 'node:zlib';
+
+/**
+ * Reads a web stream to the end into one buffer.
+ */
+export async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Returns the archive's files by name, in archive order.
+ * @throws Error if the archive is not a stored ZIP or an entry's CRC doesn't match its data.
+ */
+export function readZipArchive(archive: Buffer): Map<string, Buffer> {
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (endOffset < 0) {
+    throw new Error("No end of central directory record.");
+  }
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  const files = new Map<string, Buffer>();
+  for (let i = 0; i < entryCount; i++) {
+    if (archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error(`No central directory header at ${offset}.`);
+    }
+    const crc = archive.readUInt32LE(offset + 16);
+    const size = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+    const localOffset = archive.readUInt32LE(offset + 42);
+
+    const dataOffset = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataOffset, dataOffset + size);
+    if (crc32(data) !== crc) {
+      throw new Error(`CRC mismatch for ${name}.`);
+    }
+    files.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return files;
+}
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Scrapes several Reddit targets in one request.
+ * Targets are scraped concurrently through a bounded pool, so a batch of 20 subreddits doesn't send
+ * 20 listing requests at once. Each target succeeds or fails on its own: a 404 or private subreddit
+ * is reported in its source status instead of failing the whole batch.
+ */
+
+import type { RedditTarget } from './reddit-target';
+import { formatRedditTarget, getTargetListingOptions } from './reddit-target';
+import type { ScraperErrorCode } from './scraper-errors';
+import { toScraperError } from './scraper-errors';
+import { CanonicalMediaIndex } from './media-dedup';
+import type { TrendyPost } from './subreddit-scraper';
+import { scrapeTrendyImagesCached, type CachedScrapeOptions } from './scrape-cache';
+
+/**
+ * Maximum number of targets accepted in one batch.
+ */
+export const MAX_BATCH_TARGETS = 20;
+
+/**
+ * Number of targets scraped at the same time unless another concurrency is given.
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * The outcome of scraping one target of a batch.
+ */
+export interface SourceStatus {
+  /**
+   * The target as shown to users, e.g. "r/pics".
+   */
+  target: string;
+
+  status: 'ok' | 'error';
+
+  /**
+   * The number of images this target contributed after deduplication against earlier targets.
+   */
+  imageCount: number;
+
+  /**
+   * The number of listing pages requested for this target.
+   */
+  pagesFetched: number;
+
+  /**
+   * Seconds since this target's result was scraped if it came from the cache, or null if it was scraped live.
+   */
+  cacheAge: number | null;
+
+  /**
+   * The failure message, or null if the target was scraped.
+   */
+  error: string | null;
+
+  /**
+   * The stable error code, or null if the target was scraped.
+   */
+  errorCode: ScraperErrorCode | null;
+
+  /**
+   * The HTTP status describing the failure (see ScraperError.status), or null if the target was scraped.
+   */
+  errorStatus: number | null;
+}
+
+/**
+ * Options for a batch scrape.
+ */
+export interface BatchScrapeOptions extends CachedScrapeOptions {
+  /**
+   * Maximum number of targets scraped at the same time. Defaults to DEFAULT_BATCH_CONCURRENCY.
+   */
+  concurrency?: number;
+}
+
+/**
+ * The merged images of a batch scrape and the status of each target.
+ */
+export interface BatchScrapeResult {
+  /**
+   * The images of all targets, in target order, deduplicated by canonical media id.
+   */
+  posts: TrendyPost[];
+
+  /**
+   * One status per target, in target order.
+   */
+  sources: SourceStatus[];
+}
+
+/**
+ * Maps items through an async function, running at most `concurrency` calls at a time.
+ * Results keep the order of the input.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Scrapes several targets concurrently and merges their images.
+ * Failures are caught per target and reported in `sources`; this function only rejects on programming errors.
+ *
+ * @param targets The targets to scrape (at most MAX_BATCH_TARGETS).
+ * @param limitPerTarget The number of images to collect from each target.
+ * @param options The default listing sort and time window, client, cache and pool size.
+ *   A sort or time window in a target's URL (e.g., /r/pics/top/?t=week) takes precedence for that target.
+ * @returns The merged, deduplicated images and the status of each target.
+ */
+export async function scrapeTargetsBatch(
+  targets: RedditTarget[],
+  limitPerTarget: number = 25,
+  options: BatchScrapeOptions = {},
+): Promise<BatchScrapeResult> {
+  const { concurrency = DEFAULT_BATCH_CONCURRENCY, ...scrapeOptions } = options;
+  console.log(`Batch scraping ${targets.length} target(s), ${concurrency} at a time...`);
+
+  const outcomes = await mapWithConcurrency(targets, concurrency, async target => {
+    const targetOptions = getTargetListingOptions(target);
+    try {
+      const { result, cache } = await scrapeTrendyImagesCached(target, limitPerTarget, {
+        ...scrapeOptions,
+        sort: targetOptions.sort ?? scrapeOptions.sort,
+        timeWindow: targetOptions.timeWindow ?? scrapeOptions.timeWindow,
+      });
+      return { posts: result.posts, pagesFetched: result.pagesFetched, cacheAge: cache.ageSeconds, error: null };
+    } catch (error) {
+      return { posts: [], pagesFetched: 0, cacheAge: null, error: toScraperError(error) };
+    }
+  });
+
+  // --- Merge & Deduplicate ---
+  // Media crossposted or reposted to several targets is kept once, from the first target, and lists the others
+  const collected = new CanonicalMediaIndex();
+  const sources = outcomes.map((outcome, index): SourceStatus => {
+    const imageCount = outcome.posts.filter(post => collected.add(post)).length;
+    return {
+      target: formatRedditTarget(targets[index]),
+      status: outcome.error ? 'error' : 'ok',
+      imageCount,
+      pagesFetched: outcome.pagesFetched,
+      cacheAge: outcome.cacheAge,
+      error: outcome.error?.message ?? null,
+      errorCode: outcome.error?.code ?? null,
+      errorStatus: outcome.error?.status ?? null,
+    };
+  });
+
+  const posts = collected.getPosts();
+  const failedCount = sources.filter(source => source.status === 'error').length;
+  console.log(`Batch scrape finished: ${posts.length} images from ${targets.length - failedCount} of ${targets.length} target(s).`);
+  return { posts, sources };
+}
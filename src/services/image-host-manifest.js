@@ -0,0 +1,13 @@
+// @ts-check
+
+/**
+ * @fileoverview Hostnames serving the media returned by each external image host resolver.
+ * Plain JavaScript so both next.config.js (remotePatterns) and the resolvers (allowed hosts) read the same list.
+ * Every resolver in image-host-resolvers.ts is keyed by one of these names, so a resolver can't be added
+ * without declaring where its media comes from.
+ */
+
+export const IMAGE_HOST_MEDIA_HOSTNAMES = /** @type {const} */ ({
+  imgur: ['i.imgur.com'],
+  giphy: ['i.giphy.com'],
+});
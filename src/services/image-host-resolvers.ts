@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Pluggable resolvers that turn links to external image hosts into direct media URLs.
+ * Link posts to pages like imgur.com/abc or imgur.com/a/album carry no image extension, so the scraper asks
+ * the matching resolver for the media behind the page before falling back to Reddit's preview.
+ *
+ * Each resolver is keyed by a name in image-host-manifest.js, which lists the hostnames its media is served
+ * from. next.config.js builds `remotePatterns` from the same manifest, so the allowed hosts stay in sync.
+ */
+
+import { IMAGE_HOST_MEDIA_HOSTNAMES } from './image-host-manifest';
+import type { FetchLike } from './reddit-client';
+import type { MediaType } from './subreddit-scraper';
+
+/**
+ * The name of a resolver, as declared in the media host manifest.
+ */
+export type ImageHostName = keyof typeof IMAGE_HOST_MEDIA_HOSTNAMES;
+
+/**
+ * A direct media URL found behind a page URL.
+ */
+export interface ResolvedMedia {
+  /**
+   * The image, or the poster frame for media played as video.
+   */
+  url: string;
+  width: number | null;
+  height: number | null;
+  mediaType: MediaType;
+
+  /**
+   * The MP4 to play for animations and videos, or null for images and GIF files.
+   */
+  videoUrl: string | null;
+}
+
+/**
+ * Maps page URLs on an external host to direct media URLs.
+ */
+export interface ImageHostResolver {
+  name: ImageHostName;
+
+  /**
+   * Returns true if this resolver handles the given page URL.
+   */
+  matches(url: URL): boolean;
+
+  /**
+   * Resolves a page URL to its media, in display order (several for albums).
+   * Resolves to an empty array if the page has no usable media or could not be read; never rejects for those.
+   */
+  resolve(url: URL): Promise<ResolvedMedia[]>;
+}
+
+/**
+ * Returns every hostname that resolved media may be served from.
+ */
+export function getImageHostMediaHostnames(): string[] {
+  return Object.values(IMAGE_HOST_MEDIA_HOSTNAMES).flat();
+}
+
+const IMAGE_EXTENSION_PATTERN = /^(jpg|jpeg|png|gif|webp)$/i;
+
+// --- Imgur ---
+
+/**
+ * Options for the Imgur resolver.
+ */
+export interface ImgurResolverOptions {
+  /**
+   * Imgur API client ID, needed to list album images. Defaults to IMGUR_CLIENT_ID.
+   * Without it, single images still resolve but albums fall back to Reddit's preview.
+   */
+  clientId?: string | null;
+
+  /**
+   * Base URL of the Imgur API, without a trailing slash. Defaults to IMGUR_API_BASE_URL or https://api.imgur.com.
+   */
+  apiBaseUrl?: string;
+
+  /**
+   * The fetch implementation to call the Imgur API with. Defaults to the global `fetch`.
+   */
+  fetch?: FetchLike;
+}
+
+interface ImgurImage {
+  id: string;
+  link: string;
+  type: string; // MIME type, e.g. image/jpeg or video/mp4
+  animated: boolean;
+  has_sound?: boolean;
+  width: number;
+  height: number;
+}
+
+interface ImgurAlbumImagesResponse {
+  data: ImgurImage[];
+  success: boolean;
+}
+
+const IMGUR_PAGE_HOSTS = new Set(['imgur.com', 'www.imgur.com', 'm.imgur.com', 'i.imgur.com']);
+const IMGUR_ID_PATTERN = /^[A-Za-z0-9]{5,10}$/;
+
+/**
+ * Returns the still thumbnail Imgur generates for any upload (the "h" size is up to 1024px wide).
+ */
+function getImgurPosterUrl(imageId: string): string {
+  return `https://i.imgur.com/${imageId}h.jpg`;
+}
+
+/**
+ * Creates the Imgur resolver. Handles single images (imgur.com/abc), animations (i.imgur.com/abc.gifv, played
+ * as MP4) and albums (imgur.com/a/abc, imgur.com/gallery/title-abc).
+ */
+export function createImgurResolver(options: ImgurResolverOptions = {}): ImageHostResolver {
+  const clientId = options.clientId !== undefined ? options.clientId : process.env.IMGUR_CLIENT_ID || null;
+  const apiBaseUrl = (options.apiBaseUrl ?? (process.env.IMGUR_API_BASE_URL || 'https://api.imgur.com')).replace(/\/+$/, '');
+  const fetchImpl: FetchLike = options.fetch ?? ((input, init) => fetch(input, init));
+
+  const resolveAlbum = async (albumId: string): Promise<ResolvedMedia[]> => {
+    if (!clientId) {
+      console.warn(`Skipping Imgur album ${albumId}: IMGUR_CLIENT_ID is not set.`);
+      return [];
+    }
+    try {
+      const response = await fetchImpl(`${apiBaseUrl}/3/album/${albumId}/images`, {
+        headers: { 'Authorization': `Client-ID ${clientId}` },
+      });
+      if (!response.ok) {
+        console.warn(`Failed to fetch Imgur album ${albumId}. Status: ${response.status}`);
+        return [];
+      }
+      const album = (await response.json()) as ImgurAlbumImagesResponse;
+      return (album.data ?? [])
+        .filter(image => !!image.link && (image.type?.startsWith('image/') || image.type?.startsWith('video/')))
+        .map((image): ResolvedMedia => {
+          const dimensions = { width: image.width ?? null, height: image.height ?? null };
+          if (image.type.startsWith('video/')) {
+            return { url: getImgurPosterUrl(image.id), ...dimensions, mediaType: image.has_sound ? 'video' : 'gif', videoUrl: image.link };
+          }
+          return { url: image.link, ...dimensions, mediaType: image.animated ? 'gif' : 'image', videoUrl: null };
+        });
+    } catch (e) {
+      console.warn(`Could not fetch Imgur album ${albumId}:`, e instanceof Error ? e.message : e);
+      return [];
+    }
+  };
+
+  return {
+    name: 'imgur',
+    matches: url => IMGUR_PAGE_HOSTS.has(url.hostname.toLowerCase()),
+    async resolve(url) {
+      const [first, second] = url.pathname.split('/').filter(part => part !== '');
+
+      if ((first === 'a' || first === 'gallery') && second) {
+        // New-style gallery links append the id to a title slug, e.g. /gallery/sunset-over-the-bay-AbCdE12
+        const albumId = second.split('-').pop() ?? '';
+        return IMGUR_ID_PATTERN.test(albumId) ? resolveAlbum(albumId) : [];
+      }
+
+      if (first && !second) {
+        const [imageId, extension = ''] = first.split('.');
+        if (!IMGUR_ID_PATTERN.test(imageId)) {
+          return [];
+        }
+        const lowerExtension = extension.toLowerCase();
+        // .gifv pages wrap a silent MP4 in a video player; play the MP4 directly
+        if (lowerExtension === 'gifv' || lowerExtension === 'mp4') {
+          return [{ url: getImgurPosterUrl(imageId), width: null, height: null, mediaType: 'gif', videoUrl: `https://i.imgur.com/${imageId}.mp4` }];
+        }
+        // Imgur serves any image under .jpg when the page URL has no extension
+        const imageExtension = IMAGE_EXTENSION_PATTERN.test(extension) ? lowerExtension : 'jpg';
+        return [{
+          url: `https://i.imgur.com/${imageId}.${imageExtension}`,
+          width: null,
+          height: null,
+          mediaType: imageExtension === 'gif' ? 'gif' : 'image',
+          videoUrl: null,
+        }];
+      }
+
+      return [];
+    },
+  };
+}
+
+// --- Giphy ---
+
+const GIPHY_ID_PATTERN = /^[A-Za-z0-9]{5,40}$/;
+
+/**
+ * Creates the Giphy resolver. Handles giphy.com/gifs/title-id pages and media links on any giphy.com subdomain.
+ */
+export function createGiphyResolver(): ImageHostResolver {
+  return {
+    name: 'giphy',
+    matches: url => {
+      const hostname = url.hostname.toLowerCase();
+      return hostname === 'giphy.com' || hostname.endsWith('.giphy.com');
+    },
+    async resolve(url) {
+      const hostname = url.hostname.toLowerCase();
+      const parts = url.pathname.split('/').filter(part => part !== '');
+      let gifId: string | undefined;
+
+      if (hostname === 'giphy.com' || hostname === 'www.giphy.com') {
+        // giphy.com/gifs/title-slug-<id> (and /stickers/, /embed/<id>)
+        if (parts[0] === 'gifs' || parts[0] === 'stickers' || parts[0] === 'embed') {
+          gifId = parts[1]?.split('-').pop();
+        }
+      } else if (parts[0] === 'media') {
+        // media.giphy.com/media/<id>/giphy.gif, optionally with a v1.<token> segment before the id
+        gifId = parts[parts.length - 2];
+      } else {
+        // i.giphy.com/<id>.gif
+        gifId = parts[0]?.replace(/\.(gif|webp|mp4)$/i, '');
+      }
+
+      return gifId && GIPHY_ID_PATTERN.test(gifId)
+        ? [{ url: `https://i.giphy.com/${gifId}.gif`, width: null, height: null, mediaType: 'gif', videoUrl: null }]
+        : [];
+    },
+  };
+}
+
+// --- Registry ---
+let registeredResolvers: ImageHostResolver[] | null = null;
+
+/**
+ * Returns the registered resolvers, creating the built-in ones (Imgur, then Giphy) on first use.
+ */
+export function getImageHostResolvers(): ImageHostResolver[] {
+  if (!registeredResolvers) {
+    registeredResolvers = [createImgurResolver(), createGiphyResolver()];
+  }
+  return registeredResolvers;
+}
+
+/**
+ * Registers a resolver, replacing any registered resolver with the same name in place
+ * (e.g., an Imgur resolver pointed at local fixtures).
+ */
+export function registerImageHostResolver(resolver: ImageHostResolver): void {
+  const resolvers = getImageHostResolvers();
+  registeredResolvers = resolvers.some(registered => registered.name === resolver.name)
+    ? resolvers.map(registered => (registered.name === resolver.name ? resolver : registered))
+    : [...resolvers, resolver];
+}
+
+/**
+ * Returns the first resolver handling the URL, or null if none does.
+ */
+export function findImageHostResolver(url: URL, resolvers: ImageHostResolver[] = getImageHostResolvers()): ImageHostResolver | null {
+  return resolvers.find(resolver => resolver.matches(url)) ?? null;
+}
+// --- End Registry ---
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createPost } from '../mocks/trendy-post';
+import { readStream, readZipArchive } from '../mocks/zip-reader';
+import type { FetchLike } from './reddit-client';
+import { createMediaArchiveStream, parseArchivePosts, type ArchivedFile } from './media-archive';
+
+function createImagePost(name: string, imageUrl: string = `https://i.redd.it/${name}.jpg`) {
+  return createPost({ postId: `t3_${name}`, mediaId: `reddit:${name}`, title: name, imageUrl });
+}
+
+// A body that sends some data, then fails as a dropped connection or timeout would
+function createFailingBody(): ReadableStream<Uint8Array> {
+  let sent = false;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent) {
+        controller.error(new Error('The operation was aborted due to timeout'));
+        return;
+      }
+      sent = true;
+      controller.enqueue(Buffer.from('partial'));
+    },
+  });
+}
+
+const fetchMedia: FetchLike = async url => {
+  switch (url) {
+    case 'https://i.redd.it/ok.jpg':
+      return new Response('image data');
+    case 'https://i.redd.it/missing.jpg':
+      return new Response('not found', { status: 404 });
+    case 'https://i.redd.it/huge.jpg':
+      return new Response('', { headers: { 'content-length': String(1024 * 1024 * 1024) } });
+    case 'https://i.redd.it/broken.jpg':
+      return new Response(createFailingBody());
+    default:
+      throw new TypeError('fetch failed');
+  }
+};
+
+async function archive(posts = [
+  createImagePost('ok'),
+  createImagePost('missing'),
+  createImagePost('huge'),
+  createImagePost('broken'),
+  createImagePost('unreachable'),
+  createImagePost('elsewhere', 'https://evil.example.com/elsewhere.jpg'),
+]) {
+  const files = readZipArchive(await readStream(createMediaArchiveStream(posts, { fetch: fetchMedia })));
+  const manifest = JSON.parse(files.get('manifest.json')!.toString()) as { files: ArchivedFile[] };
+  return { files, manifest };
+}
+
+describe('createMediaArchiveStream', () => {
+  it('archives downloadable media and records the rest in the manifest', async () => {
+    const { files, manifest } = await archive();
+
+    expect([...files.keys()]).toEqual(['pics_ok_ok.jpg', 'pics_broken_broken.jpg', 'manifest.json', 'manifest.csv']);
+    expect(files.get('pics_ok_ok.jpg')?.toString()).toBe('image data');
+    expect(manifest.files.map(file => [file.post.postId, file.fileName, file.error])).toEqual([
+      ['t3_ok', 'pics_ok_ok.jpg', null],
+      ['t3_missing', null, 'Status: 404'],
+      ['t3_huge', null, `${1024 * 1024 * 1024} bytes is over the size limit.`],
+      ['t3_broken', 'pics_broken_broken.jpg', expect.stringContaining('The download failed partway')],
+      ['t3_unreachable', null, 'fetch failed'],
+      ['t3_elsewhere', null, 'The media host is not allowed.'],
+    ]);
+    expect(files.get('manifest.csv')?.toString().split('\r\n')[1]).toMatch(/^pics_ok_ok\.jpg,,t3_ok,/);
+  });
+
+  it('keeps what arrived of a download that fails partway', async () => {
+    const { files } = await archive([createImagePost('broken'), createImagePost('ok')]);
+
+    expect(files.get('pics_broken_broken.jpg')?.toString()).toBe('partial');
+    expect(files.get('pics_ok_ok.jpg')?.toString()).toBe('image data'); // The archive goes on after the failure
+  });
+
+  it('numbers copies of a post submitted twice', async () => {
+    const { files } = await archive([createImagePost('ok'), createImagePost('ok')]);
+    expect([...files.keys()].slice(0, 2)).toEqual(['pics_ok_ok.jpg', 'pics_ok_ok-2.jpg']);
+  });
+});
+
+describe('parseArchivePosts', () => {
+  it('accepts scraped posts', () => {
+    const posts = [createImagePost('ok')];
+    expect(parseArchivePosts(JSON.parse(JSON.stringify(posts)))).toEqual(posts);
+  });
+
+  it.each([
+    ['a value that is not a list', {}, 'Expected a list of posts.'],
+    ['an empty list', [], 'Please select at least one image to download.'],
+    ['a subreddit that could escape the archive folder', [{ ...createImagePost('ok'), subreddit: '../etc' }], 'Invalid post data (0.subreddit'],
+  ])('rejects %s', (_, value, message) => {
+    expect(() => parseArchivePosts(value)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT', message: expect.stringContaining(message) }));
+  });
+});
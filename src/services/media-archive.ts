@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Builds ZIP archives of scraped posts' media for bulk download.
+ * Each post's image or video is downloaded and streamed into the archive as it arrives, one file at a time,
+ * so archives are never held in memory. The archive ends with a manifest of the posts' metadata, in JSON and CSV,
+ * recording which file holds each post (or why it is missing or incomplete).
+ *
+ * Server-only: it downloads media from the hosts the app allows.
+ */
+
+import { z } from 'zod';
+import type { FetchLike } from './reddit-client';
+import type { TrendyPost } from './subreddit-scraper';
+import { InvalidInputError } from './scraper-errors';
+import { getAllowedHostnames, getAllowedVideoHostnames, isValidAndAllowedUrl } from './scrape-service';
+import { getMediaFileName, getPostMediaUrl } from './media-download';
+import { formatCsvCell, formatPostCsvRow, getPostCsvHeader } from './post-export';
+import { MAX_BATCH_TARGETS } from './batch-scraper';
+import { createZipStream, type ZipEntry } from './zip-writer';
+
+/**
+ * Most posts one archive may hold: every image of the largest batch scrape.
+ */
+export const MAX_ARCHIVE_POSTS = MAX_BATCH_TARGETS * 500;
+
+/**
+ * Files larger than this are left out of archives.
+ */
+const MAX_ARCHIVED_FILE_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Once an archive holds this much media, the remaining files are left out, keeping it clear of the 4 GiB ZIP limit.
+ */
+const MAX_ARCHIVE_BYTES = 3 * 1024 * 1024 * 1024;
+
+/**
+ * How long a single download may take, including streaming it into the archive.
+ */
+const DOWNLOAD_TIMEOUT_MS = 5 * 60_000;
+
+// --- Request Validation ---
+const postReferenceSchema = z.object({
+  postId: z.string(),
+  subreddit: z.string(),
+  permalink: z.string(),
+});
+
+// Subreddit names and post ids end up in file names, so they must not contain path separators
+const trendyPostSchema = z.object({
+  imageUrl: z.string().url(),
+  mediaType: z.enum(['image', 'gif', 'video']),
+  video: z.object({
+    url: z.string().url(),
+    hlsUrl: z.string().nullable(),
+    dashUrl: z.string().nullable(),
+    durationSeconds: z.number().nullable(),
+    hasAudio: z.boolean(),
+  }).nullable(),
+  mediaId: z.string(),
+  title: z.string(),
+  resolvedBy: z.enum(['direct', 'gallery', 'preview-source', 'preview-resolution', 'external-host', 'reddit-video', 'video-preview']),
+  postId: z.string().regex(/^t3_[a-z0-9]+$/i),
+  author: z.string(),
+  subreddit: z.string().regex(/^[a-z0-9_]+$/i),
+  permalink: z.string(),
+  createdUtc: z.number(),
+  score: z.number(),
+  upvoteRatio: z.number(),
+  numComments: z.number(),
+  flair: z.string().nullable(),
+  over18: z.boolean(),
+  spoiler: z.boolean(),
+  stickied: z.boolean(),
+  width: z.number().nullable(),
+  height: z.number().nullable(),
+  galleryId: z.string().optional(),
+  galleryIndex: z.number().int().min(0).optional(),
+  gallerySize: z.number().int().optional(),
+  crosspostParent: postReferenceSchema.nullable(),
+  alsoPostedIn: z.array(postReferenceSchema),
+  duplicateCount: z.number().int(),
+}) satisfies z.ZodType<TrendyPost, z.ZodTypeDef, unknown>;
+
+const archivePostsSchema = z.array(trendyPostSchema, { message: "Expected a list of posts." })
+  .min(1, { message: "Please select at least one image to download." })
+  .max(MAX_ARCHIVE_POSTS, { message: `At most ${MAX_ARCHIVE_POSTS} images can be downloaded at once.` });
+
+/**
+ * Validates the posts submitted for an archive, as returned by a scrape.
+ * @param value The submitted posts (parsed JSON).
+ * @returns The posts.
+ * @throws InvalidInputError if the value is not a list of posts, is empty or is too long.
+ */
+export function parseArchivePosts(value: unknown): TrendyPost[] {
+  const result = archivePostsSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new InvalidInputError(issue?.path.length ? `Invalid post data (${issue.path.join('.')}: ${issue.message}).` : issue?.message ?? "Invalid post data.");
+  }
+  return result.data;
+}
+// --- End Request Validation ---
+
+/**
+ * Where a post's media ended up in an archive.
+ */
+export interface ArchivedFile {
+  /**
+   * The file's name in the archive, or null if the media was left out.
+   */
+  fileName: string | null;
+
+  /**
+   * Why the media was left out (e.g., the host answered 404) or is incomplete (the download failed partway, so
+   * `fileName` holds only what arrived), or null if the whole file is in the archive.
+   */
+  error: string | null;
+
+  post: TrendyPost;
+}
+
+/**
+ * Options for building archives.
+ */
+export interface MediaArchiveOptions {
+  /**
+   * The fetch implementation to download media with. Defaults to the global `fetch`.
+   */
+  fetch?: FetchLike;
+}
+
+/**
+ * Passes a download through, ending it early once it grows past the per-file limit or fails (network error,
+ * timeout). The entry is then closed with what arrived, so one download can't break the rest of the archive.
+ * @param onChunk Called with the size of each chunk passed through.
+ * @param onFailure Called with the reason if the download ended early.
+ */
+async function* streamDownload(
+  body: ReadableStream<Uint8Array>,
+  url: string,
+  onChunk: (bytes: number) => void,
+  onFailure: (error: string) => void,
+): AsyncGenerator<Uint8Array> {
+  let bytes = 0;
+  const reader = body.getReader();
+  try {
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (e) {
+        onFailure(`The download failed partway: ${e instanceof Error ? e.message : String(e)}`);
+        return;
+      }
+      if (chunk.done) return;
+      bytes += chunk.value.length;
+      if (bytes > MAX_ARCHIVED_FILE_BYTES) {
+        onFailure(`The file is over the size limit of ${MAX_ARCHIVED_FILE_BYTES} bytes.`);
+        return;
+      }
+      onChunk(chunk.value.length);
+      yield chunk.value;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined); // Stops the download if it ended early or the archive was cancelled
+  }
+}
+
+/**
+ * Produces the archive's entries: each post's media, then the manifest.
+ * Media that can't be downloaded (disallowed host, error status, declared too large) is left out, and media whose
+ * download fails partway is kept incomplete; both are reported in the manifest.
+ */
+async function* getArchiveEntries(posts: TrendyPost[], options: MediaArchiveOptions): AsyncGenerator<ZipEntry> {
+  const fetchImpl: FetchLike = options.fetch ?? ((input, init) => fetch(input, init));
+  const allowedHostnames = getAllowedHostnames();
+  const allowedVideoHostnames = getAllowedVideoHostnames();
+  const usedNames = new Set<string>();
+  const archivedFiles: ArchivedFile[] = [];
+  let archivedBytes = 0;
+
+  for (const post of posts) {
+    const url = getPostMediaUrl(post);
+    const skip = (error: string) => {
+      console.warn(`Leaving ${url} out of the archive: ${error}`);
+      archivedFiles.push({ fileName: null, error, post });
+    };
+
+    if (!isValidAndAllowedUrl(url, post.video ? allowedVideoHostnames : allowedHostnames)) {
+      skip("The media host is not allowed.");
+      continue;
+    }
+    if (archivedBytes >= MAX_ARCHIVE_BYTES) {
+      skip("The archive size limit was reached.");
+      continue;
+    }
+
+    let response: Response;
+    try {
+      // Redirects are refused: they could lead to a host that is not allowed
+      response = await fetchImpl(url, { redirect: 'error', signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    } catch (e) {
+      skip(e instanceof Error ? e.message : String(e));
+      continue;
+    }
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      skip(`Status: ${response.status}`);
+      continue;
+    }
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > MAX_ARCHIVED_FILE_BYTES) {
+      await response.body.cancel();
+      skip(`${declaredLength} bytes is over the size limit.`);
+      continue;
+    }
+
+    // Names are deterministic; a post submitted twice gets a numbered copy
+    let fileName = getMediaFileName(post);
+    for (let copy = 2; usedNames.has(fileName); copy++) {
+      fileName = getMediaFileName(post).replace(/(\.[a-z0-9]+)$/, `-${copy}$1`);
+    }
+    usedNames.add(fileName);
+
+    const archivedFile: ArchivedFile = { fileName, error: null, post };
+    archivedFiles.push(archivedFile);
+    const content = streamDownload(response.body, url, bytes => { archivedBytes += bytes; }, error => {
+      console.warn(`Archiving ${url} incompletely: ${error}`);
+      archivedFile.error = error;
+    });
+    yield { name: fileName, modifiedAt: new Date(post.createdUtc * 1000), content };
+  }
+
+  yield {
+    name: 'manifest.json',
+    content: Buffer.from(`${JSON.stringify({ generatedAt: new Date().toISOString(), files: archivedFiles }, null, 2)}\n`),
+  };
+  yield {
+    name: 'manifest.csv',
+    content: Buffer.from([
+      `file,error,${getPostCsvHeader()}`,
+      ...archivedFiles.map(file => `${formatCsvCell(file.fileName)},${formatCsvCell(file.error)},${formatPostCsvRow(file.post)}`),
+    ].map(line => `${line}\r\n`).join('')),
+  };
+}
+
+/**
+ * Streams a ZIP archive of the posts' media, named by subreddit, post id and title (see getMediaFileName),
+ * followed by manifest.json and manifest.csv. Only media on the app's allowed hosts is downloaded.
+ * @param posts The posts to archive, validated with `parseArchivePosts`.
+ * @param options The fetch implementation to use.
+ * @returns The archive stream.
+ */
+export function createMediaArchiveStream(posts: TrendyPost[], options: MediaArchiveOptions = {}): ReadableStream<Uint8Array> {
+  return createZipStream(getArchiveEntries(posts, options));
+}
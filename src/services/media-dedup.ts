@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Canonical media ids and deduplication of scraped posts that show the same media.
+ * The same upload often appears several times: reposted with the same link, crossposted to other subreddits,
+ * or served under different URLs (i.redd.it vs. preview.redd.it, Imgur poster vs. MP4). Each of these maps to
+ * one canonical id, and only the first post carrying it is kept; the others are listed in its `alsoPostedIn`.
+ */
+
+import type { PostReference, TrendyPost } from './subreddit-scraper';
+
+/**
+ * Returns the file name of a URL's path without its extension (e.g., "abc123" for /abc123.jpg).
+ */
+function getBaseName(pathname: string): string {
+  const fileName = pathname.split('/').filter(part => part !== '').pop() ?? '';
+  return fileName.replace(/\.[a-z0-9]+$/i, '');
+}
+
+/**
+ * Returns the canonical id of the media a post shows. Posts with the same id show the same upload.
+ * Hosts known to serve one upload under several URLs are reduced to the upload id; for any other host,
+ * the URL without its query string and fragment identifies the media.
+ * @param post The post, with its media resolved.
+ * @returns The canonical media id (e.g., "reddit:abc123", "v.redd.it:xyz", "imgur:AbCdE12").
+ */
+export function getCanonicalMediaId(post: Pick<TrendyPost, 'imageUrl' | 'video'>): string {
+  const mediaUrl = post.video?.url ?? post.imageUrl;
+  let url: URL;
+  try {
+    url = new URL(mediaUrl);
+  } catch (e) {
+    return mediaUrl;
+  }
+  const hostname = url.hostname.toLowerCase();
+
+  switch (hostname) {
+    case 'i.redd.it':
+    case 'preview.redd.it':
+      // preview.redd.it serves resized copies of i.redd.it uploads under the same id
+      return `reddit:${getBaseName(url.pathname)}`;
+    case 'v.redd.it':
+      // v.redd.it/<id>/DASH_720.mp4, /HLSPlaylist.m3u8, ...
+      return `v.redd.it:${url.pathname.split('/')[1] ?? ''}`;
+    case 'i.imgur.com':
+      return `imgur:${getBaseName(url.pathname)}`;
+    case 'i.giphy.com':
+      return `giphy:${getBaseName(url.pathname)}`;
+    default:
+      return `${hostname}${url.pathname}`;
+  }
+}
+
+/**
+ * Returns a reference to the Reddit post a scraped image came from.
+ */
+export function toPostReference(post: Pick<TrendyPost, 'postId' | 'subreddit' | 'permalink'>): PostReference {
+  return { postId: post.postId, subreddit: post.subreddit, permalink: post.permalink };
+}
+
+/**
+ * Records a dropped duplicate, and every post it was itself seen in, in the `alsoPostedIn` list of the kept post.
+ * Posts the kept one already lists are skipped.
+ * @param kept The post that stays in the results. Its `alsoPostedIn` list is modified.
+ * @param duplicate The post being dropped.
+ * @returns True if the duplicate itself was newly listed, false if the kept post already listed it (or is it).
+ */
+export function recordDuplicatePost(kept: TrendyPost, duplicate: TrendyPost): boolean {
+  let listedDuplicate = false;
+  for (const reference of [toPostReference(duplicate), ...duplicate.alsoPostedIn]) {
+    const alreadyListed = reference.postId === kept.postId
+      || kept.alsoPostedIn.some(listed => listed.postId === reference.postId);
+    if (!alreadyListed) {
+      kept.alsoPostedIn.push(reference);
+      listedDuplicate ||= reference.postId === duplicate.postId;
+    }
+  }
+  return listedDuplicate;
+}
+
+/**
+ * Collects posts while dropping the ones whose media was already collected.
+ * A dropped post is recorded in the `alsoPostedIn` list of the post that was kept.
+ */
+export class CanonicalMediaIndex {
+  private readonly postsByMediaId = new Map<string, TrendyPost>();
+  private readonly collected: TrendyPost[] = [];
+
+  /**
+   * Adds a post, unless a post with the same media was added before.
+   * @param post The post to add. It is copied, so callers' objects are never modified.
+   * @returns True if the post was added, false if it was a duplicate.
+   */
+  add(post: TrendyPost): boolean {
+    const existing = this.postsByMediaId.get(post.mediaId);
+    if (!existing) {
+      const copy = { ...post, alsoPostedIn: [...post.alsoPostedIn] };
+      this.postsByMediaId.set(post.mediaId, copy);
+      this.collected.push(copy);
+      return true;
+    }
+
+    recordDuplicatePost(existing, post);
+    return false;
+  }
+
+  /**
+   * Returns true if a post with this canonical media id was added.
+   */
+  has(mediaId: string): boolean {
+    return this.postsByMediaId.has(mediaId);
+  }
+
+  /**
+   * The number of distinct posts collected.
+   */
+  get size(): number {
+    return this.collected.length;
+  }
+
+  /**
+   * Returns the collected posts, in the order they were first added.
+   */
+  getPosts(): TrendyPost[] {
+    return [...this.collected];
+  }
+}
+
+/**
+ * Removes posts showing media already shown by an earlier post, recording them in that post's `alsoPostedIn`.
+ * @param posts The posts, in display order.
+ * @returns The distinct posts, in their original order.
+ */
+export function dedupeByCanonicalMedia(posts: TrendyPost[]): TrendyPost[] {
+  const index = new CanonicalMediaIndex();
+  posts.forEach(post => index.add(post));
+  return index.getPosts();
+}
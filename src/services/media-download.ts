@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Downloads the media of scraped posts to a directory, for the command-line interface.
+ * Files get deterministic names (subreddit, post id and a slug of the title), so a rerun skips files it already
+ * has, and downloads interrupted midway continue from where they stopped instead of starting over.
+ * ZIP archives (media-archive.ts) name their files the same way.
+ *
+ * Server-only: it writes to the local file system.
+ */
+
+import { createWriteStream } from 'node:fs';
+import { rename, stat, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import type { FetchLike } from './reddit-client';
+import type { TrendyPost } from './subreddit-scraper';
+import { MediaDownloadError } from './scraper-errors';
+
+/**
+ * Files larger than this are not downloaded.
+ */
+const MAX_MEDIA_BYTES = 512 * 1024 * 1024;
+
+/**
+ * How long a single download may take. Generous, since videos can be large.
+ */
+const DOWNLOAD_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Longest title slug used in file names.
+ */
+const MAX_SLUG_LENGTH = 60;
+
+// Extensions kept from media URLs; anything else falls back to one based on the media type
+const KNOWN_MEDIA_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'gif', 'webp', 'mp4', 'webm']);
+
+// Suffix of files still being downloaded
+const PARTIAL_FILE_SUFFIX = '.part';
+
+// --- File Names ---
+
+/**
+ * Turns a post title into a file-name-safe slug: lowercase ASCII letters and digits separated by hyphens.
+ * @param title The post title.
+ * @returns The slug, or "untitled" if the title has no usable characters.
+ */
+export function slugifyTitle(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents left over from decomposition (é -> e)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  return slug || 'untitled';
+}
+
+/**
+ * Returns the URL of the file to download for a post: the video for videos and animations delivered as video,
+ * otherwise the image.
+ */
+export function getPostMediaUrl(post: TrendyPost): string {
+  return post.video?.url ?? post.imageUrl;
+}
+
+function getMediaExtension(post: TrendyPost): string {
+  try {
+    const extension = new URL(getPostMediaUrl(post)).pathname.split('.').pop()?.toLowerCase();
+    if (extension && KNOWN_MEDIA_EXTENSIONS.has(extension)) {
+      return extension === 'jpeg' ? 'jpg' : extension;
+    }
+  } catch (_) {
+    // Fall through to the media type's default
+  }
+  return post.video ? 'mp4' : 'jpg';
+}
+
+/**
+ * Returns the file name for a post's media, e.g. "pics_abc123_sunset-over-the-bay.jpg".
+ * Gallery images are numbered from 1 after the post id ("pics_abc123_2_sunset-over-the-bay.jpg").
+ * The name only depends on the post, so the same post always gets the same file.
+ */
+export function getMediaFileName(post: TrendyPost): string {
+  const postId = post.postId.replace(/^t3_/, '');
+  const galleryPart = post.galleryIndex !== undefined ? `_${post.galleryIndex + 1}` : '';
+  return `${post.subreddit}_${postId}${galleryPart}_${slugifyTitle(post.title)}.${getMediaExtension(post)}`;
+}
+// --- End File Names ---
+
+/**
+ * How a post's media ended up on disk.
+ * - 'downloaded': downloaded in full.
+ * - 'resumed': an interrupted download was completed.
+ * - 'skipped': the file was already there.
+ */
+export type MediaDownloadStatus = 'downloaded' | 'resumed' | 'skipped';
+
+/**
+ * The result of downloading one post's media.
+ */
+export interface MediaDownloadResult {
+  fileName: string;
+  status: MediaDownloadStatus;
+
+  /**
+   * The size of the file on disk.
+   */
+  bytes: number;
+}
+
+/**
+ * Options for downloading media.
+ */
+export interface MediaDownloadOptions {
+  /**
+   * The fetch implementation to download media with. Defaults to the global `fetch`.
+   */
+  fetch?: FetchLike;
+}
+
+async function getFileSize(path: string): Promise<number | null> {
+  try {
+    return (await stat(path)).size;
+  } catch (_) {
+    return null;
+  }
+}
+
+/**
+ * Downloads a post's media into a directory, unless the file is already there.
+ * The file is written under a ".part" name and renamed once complete. If a ".part" file is left over from an
+ * interrupted run, the rest is requested with a Range header, or the file is downloaded again if the host
+ * doesn't support ranges.
+ * Callers must only pass posts on allowed media hosts: this function downloads whatever it is given.
+ * @param post The post whose media to download.
+ * @param directory The directory to save to. It must exist.
+ * @param options The fetch implementation to use.
+ * @returns The file name and how the file was obtained.
+ * @throws MediaDownloadError if the host answers with an error status, the file is too large or the download fails.
+ */
+export async function downloadPostMedia(post: TrendyPost, directory: string, options: MediaDownloadOptions = {}): Promise<MediaDownloadResult> {
+  const fileName = getMediaFileName(post);
+  const filePath = join(directory, fileName);
+  const existingSize = await getFileSize(filePath);
+  if (existingSize !== null) {
+    return { fileName, status: 'skipped', bytes: existingSize };
+  }
+
+  const url = getPostMediaUrl(post);
+  const partialPath = `${filePath}${PARTIAL_FILE_SUFFIX}`;
+  const fetchImpl: FetchLike = options.fetch ?? ((input, init) => fetch(input, init));
+  let partialSize = (await getFileSize(partialPath)) ?? 0;
+
+  let response: Response;
+  try {
+    response = await fetchImpl(url, {
+      headers: partialSize > 0 ? { Range: `bytes=${partialSize}-` } : {},
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    });
+    const rangeMismatch = response.status === 206 && !response.headers.get('content-range')?.startsWith(`bytes ${partialSize}-`);
+    if (partialSize > 0 && (response.status === 416 || rangeMismatch)) {
+      // The partial file doesn't match what the host has (e.g., the media changed): start over
+      await response.body?.cancel();
+      await unlink(partialPath);
+      partialSize = 0;
+      response = await fetchImpl(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    }
+  } catch (e) {
+    throw new MediaDownloadError(url, e instanceof Error ? e.message : String(e));
+  }
+  if (!response.ok || !response.body) {
+    throw new MediaDownloadError(url, `Status: ${response.status}`);
+  }
+
+  // A 206 continues the partial file; a 200 means the host ignored the range and sent the whole file
+  const resuming = response.status === 206 && partialSize > 0;
+  const startSize = resuming ? partialSize : 0;
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (startSize + declaredLength > MAX_MEDIA_BYTES) {
+    throw new MediaDownloadError(url, `${startSize + declaredLength} bytes is over the size limit.`);
+  }
+
+  let bytes = startSize;
+  let tooLarge = false;
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>),
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          bytes += chunk.length;
+          if (bytes > MAX_MEDIA_BYTES) {
+            tooLarge = true;
+            throw new Error(`Over the size limit of ${MAX_MEDIA_BYTES} bytes.`);
+          }
+          yield chunk;
+        }
+      },
+      createWriteStream(partialPath, { flags: resuming ? 'a' : 'w' }),
+    );
+  } catch (e) {
+    // The partial file is kept so the next run resumes it, unless resuming can only fail again
+    if (tooLarge) {
+      await unlink(partialPath).catch(() => undefined);
+    }
+    throw new MediaDownloadError(url, e instanceof Error ? e.message : String(e));
+  }
+
+  await rename(partialPath, filePath);
+  return { fileName, status: resuming ? 'resumed' : 'downloaded', bytes };
+}
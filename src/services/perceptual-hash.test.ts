@@ -0,0 +1,66 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { getImageHash, hammingDistance } from './perceptual-hash';
+
+/**
+ * A response whose body records whether it was cancelled, streaming `chunks` chunks of `chunkBytes` bytes.
+ */
+function createTrackedResponse(init: ResponseInit, chunkBytes: number = 1024, chunks: number = 1) {
+  const tracked = { cancelled: false, chunksSent: 0 };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (tracked.chunksSent === chunks) {
+        controller.close();
+        return;
+      }
+      tracked.chunksSent++;
+      controller.enqueue(new Uint8Array(chunkBytes));
+    },
+    cancel() {
+      tracked.cancelled = true;
+    },
+  });
+  return { response: new Response(body, init), tracked };
+}
+
+function createGradient(width: number, height: number, reversed: boolean = false): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    const x = i % width;
+    pixels[i] = Math.round(((reversed ? width - 1 - x : x) / (width - 1)) * 255);
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+describe('getImageHash', () => {
+  it('hashes images so that resized copies are close and different images are not', async () => {
+    const images = new Map([
+      ['https://i.redd.it/original.png', await createGradient(64, 64)],
+      ['https://i.redd.it/resized.png', await createGradient(128, 128)],
+      ['https://i.redd.it/reversed.png', await createGradient(64, 64, true)],
+    ]);
+    const options = { fetch: async (url: string) => new Response(images.get(url), { headers: { 'content-type': 'image/png' } }) };
+
+    const [original, resized, reversed] = await Promise.all([...images.keys()].map(url => getImageHash(url, options)));
+    expect(hammingDistance(original!, resized!)).toBeLessThanOrEqual(2);
+    expect(hammingDistance(original!, reversed!)).toBeGreaterThan(24);
+  });
+
+  it.each([
+    ['an error status', { status: 404 }],
+    ['a response that is not an image', { headers: { 'content-type': 'text/html' } }],
+    ['a declared length over the limit', { headers: { 'content-type': 'image/jpeg', 'content-length': String(50 * 1024 * 1024) } }],
+  ])('cancels the download for %s', async (_, init) => {
+    const { response, tracked } = createTrackedResponse(init);
+    expect(await getImageHash('https://i.redd.it/early.jpg', { fetch: async () => response })).toBeNull();
+    expect(tracked.cancelled).toBe(true);
+  });
+
+  it('stops downloading once the body grows past the limit', async () => {
+    const { response, tracked } = createTrackedResponse({ headers: { 'content-type': 'image/jpeg' } }, 1024 * 1024, 100);
+
+    expect(await getImageHash('https://i.redd.it/endless.jpg', { fetch: async () => response })).toBeNull();
+    expect(tracked.cancelled).toBe(true);
+    expect(tracked.chunksSent).toBeLessThan(30);
+  });
+});
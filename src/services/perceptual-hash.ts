@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Near-duplicate detection for scraped images using perceptual hashes.
+ * URL-based deduplication (media-dedup.ts) misses reposts that were re-encoded, resized or re-uploaded.
+ * This module downloads each image, reduces it to a 64-bit difference hash (dHash), and collapses images
+ * whose hashes differ in at most a few bits. Everything runs locally with sharp; no external service is used.
+ *
+ * Server-only: it downloads images and decodes them with native code.
+ */
+
+import sharp from 'sharp';
+import type { FetchLike } from './reddit-client';
+import type { TrendyPost } from './subreddit-scraper';
+import { mapWithConcurrency } from './batch-scraper';
+import { recordDuplicatePost } from './media-dedup';
+
+/**
+ * Default maximum Hamming distance, in bits out of 64, between hashes of images considered the same picture.
+ * Re-encodes and resizes usually land within 0-6 bits; unrelated images are typically 25 or more bits apart.
+ */
+export const DEFAULT_HASH_DISTANCE_THRESHOLD = 10;
+
+/**
+ * Largest threshold accepted. Beyond this, unrelated images start being collapsed.
+ */
+export const MAX_HASH_DISTANCE_THRESHOLD = 24;
+
+/**
+ * Default number of images downloaded at a time.
+ */
+export const DEFAULT_HASH_CONCURRENCY = 6;
+
+/**
+ * Images larger than this are not downloaded (and not hashed).
+ */
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * How long a single image download may take.
+ */
+const DOWNLOAD_TIMEOUT_MS = 10_000;
+
+/**
+ * Maximum number of hashes kept in the per-URL cache. The oldest entries are evicted first.
+ */
+const MAX_CACHED_HASHES = 5_000;
+
+// Side of the grid compared by dHash: each row has 9 pixels, giving 8 left/right comparisons per row
+const HASH_GRID_SIZE = 8;
+
+// --- Hashing ---
+
+/**
+ * Computes the difference hash of an image: the image is shrunk to 9x8 grayscale pixels, and each bit
+ * records whether a pixel is darker than its right-hand neighbor. Animated images are hashed by their first frame.
+ * @param image The encoded image (JPEG, PNG, WebP, GIF, ...).
+ * @returns The 64-bit hash as 16 hexadecimal characters.
+ */
+export async function computeDifferenceHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image, { animated: false })
+    .greyscale()
+    .resize(HASH_GRID_SIZE + 1, HASH_GRID_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  let nibble = 0;
+  for (let row = 0; row < HASH_GRID_SIZE; row++) {
+    for (let column = 0; column < HASH_GRID_SIZE; column++) {
+      const offset = row * (HASH_GRID_SIZE + 1) + column;
+      nibble = (nibble << 1) | (pixels[offset] < pixels[offset + 1] ? 1 : 0);
+      if (column % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Returns the number of bits that differ between two hashes of the same length.
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+// --- Hash Cache ---
+// Keyed by image URL. Map iteration follows insertion order, so re-inserting on use keeps it least-recently-used first.
+const hashCache = new Map<string, string>();
+
+function getCachedHash(url: string): string | undefined {
+  const hash = hashCache.get(url);
+  if (hash !== undefined) {
+    hashCache.delete(url);
+    hashCache.set(url, hash);
+  }
+  return hash;
+}
+
+function cacheHash(url: string, hash: string): void {
+  hashCache.set(url, hash);
+  if (hashCache.size > MAX_CACHED_HASHES) {
+    const oldestUrl = hashCache.keys().next().value;
+    if (oldestUrl !== undefined) {
+      hashCache.delete(oldestUrl);
+    }
+  }
+}
+
+/**
+ * Empties the per-URL hash cache.
+ */
+export function clearImageHashCache(): void {
+  hashCache.clear();
+}
+// --- End Hash Cache ---
+
+/**
+ * Options for downloading and hashing images.
+ */
+export interface ImageHashOptions {
+  /**
+   * The fetch implementation to download images with. Defaults to the global `fetch`.
+   */
+  fetch?: FetchLike;
+}
+
+/**
+ * Reads a response body into memory, cancelling the download once it grows past MAX_IMAGE_BYTES.
+ * @returns The body, or null if it is too large.
+ */
+async function readImageBody(response: Response): Promise<Buffer | null> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  const reader = response.body.getReader();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return Buffer.concat(chunks, bytes);
+      }
+      bytes += value.length;
+      if (bytes > MAX_IMAGE_BYTES) {
+        return null;
+      }
+      chunks.push(value);
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined); // Stops a download that was cut short
+  }
+}
+
+/**
+ * Downloads an image and returns its difference hash, from the cache if the URL was hashed before.
+ * Failures (unreachable, too large, not an image) are logged and not cached, so a later scrape retries them.
+ * Callers must only pass URLs on allowed image hosts: this function downloads whatever it is given.
+ * @param url The image URL.
+ * @param options The fetch implementation to use.
+ * @returns The hash, or null if the image could not be downloaded or decoded.
+ */
+export async function getImageHash(url: string, options: ImageHashOptions = {}): Promise<string | null> {
+  const cached = getCachedHash(url);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const fetchImpl: FetchLike = options.fetch ?? ((input, init) => fetch(input, init));
+  try {
+    const response = await fetchImpl(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) {
+      console.warn(`Could not download ${url} for hashing. Status: ${response.status}`);
+      await response.body?.cancel();
+      return null;
+    }
+    const contentType = response.headers.get('content-type');
+    if (contentType && !contentType.toLowerCase().startsWith('image/')) {
+      console.warn(`Skipping hashing of ${url}: ${contentType} is not an image.`);
+      await response.body?.cancel();
+      return null;
+    }
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > MAX_IMAGE_BYTES) {
+      console.warn(`Skipping hashing of ${url}: ${declaredLength} bytes is over the size limit.`);
+      await response.body?.cancel();
+      return null;
+    }
+    const image = await readImageBody(response);
+    if (!image) {
+      console.warn(`Skipping hashing of ${url}: the download is over the size limit.`);
+      return null;
+    }
+
+    const hash = await computeDifferenceHash(image);
+    cacheHash(url, hash);
+    return hash;
+  } catch (e) {
+    console.warn(`Could not hash ${url}:`, e instanceof Error ? e.message : e);
+    return null;
+  }
+}
+
+// --- Clustering ---
+
+/**
+ * Options for collapsing near-duplicate images.
+ */
+export interface NearDuplicateOptions extends ImageHashOptions {
+  /**
+   * Maximum Hamming distance, in bits, between the hashes of near-duplicates. Defaults to DEFAULT_HASH_DISTANCE_THRESHOLD.
+   */
+  threshold?: number;
+
+  /**
+   * Number of images downloaded at a time. Defaults to DEFAULT_HASH_CONCURRENCY.
+   */
+  concurrency?: number;
+}
+
+/**
+ * Collapses images that look the same into one representative: the first of them in display order.
+ * Each image joins the first earlier representative within `threshold` bits of it. Dropped images are listed in
+ * the representative's `alsoPostedIn` and counted in its `duplicateCount`.
+ *
+ * Gallery and album images are hashed but never dropped, so galleries stay whole; they can still absorb
+ * later copies of themselves. Images of the same post are never collapsed into each other, and images that
+ * could not be hashed are kept as they are. For videos, the poster frame is compared.
+ *
+ * @param posts The posts, in display order. They are not modified.
+ * @param options The threshold, download concurrency and fetch implementation.
+ * @returns The remaining posts, in their original order.
+ */
+export async function collapseNearDuplicates(posts: TrendyPost[], options: NearDuplicateOptions = {}): Promise<TrendyPost[]> {
+  const { threshold = DEFAULT_HASH_DISTANCE_THRESHOLD, concurrency = DEFAULT_HASH_CONCURRENCY } = options;
+  const uniqueUrls = [...new Set(posts.map(post => post.imageUrl))];
+  console.log(`Hashing ${uniqueUrls.length} images to find near-duplicates (threshold ${threshold} bits)...`);
+
+  const hashes = await mapWithConcurrency(uniqueUrls, concurrency, url => getImageHash(url, options));
+  const hashByUrl = new Map(uniqueUrls.map((url, index) => [url, hashes[index]]));
+
+  const representatives: { post: TrendyPost; hash: string }[] = [];
+  const kept: TrendyPost[] = [];
+  for (const post of posts) {
+    const hash = hashByUrl.get(post.imageUrl) ?? null;
+    const isGalleryItem = post.galleryId !== undefined;
+    const representative = hash && !isGalleryItem
+      ? representatives.find(candidate => candidate.post.postId !== post.postId && hammingDistance(candidate.hash, hash) <= threshold)
+      : undefined;
+
+    if (representative) {
+      if (recordDuplicatePost(representative.post, post)) {
+        representative.post.duplicateCount += 1 + post.duplicateCount;
+      }
+      continue;
+    }
+
+    const copy = { ...post, alsoPostedIn: [...post.alsoPostedIn] };
+    kept.push(copy);
+    if (hash) {
+      representatives.push({ post: copy, hash });
+    }
+  }
+
+  console.log(`Collapsed ${posts.length - kept.length} near-duplicate image(s).`);
+  return kept;
+}
+// --- End Clustering ---
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createPost } from '../mocks/trendy-post';
+import { formatCsvCell, formatPosts, getDefaultExportMetadata, getPostCsvHeader } from './post-export';
+
+const metadata = { title: 'Images from r/pics', link: 'https://www.reddit.com/r/pics/', generatedAt: new Date('2026-01-02T03:04:05Z') };
+
+const posts = [
+  createPost({ postId: 't3_one', title: '=HYPERLINK("x") & <b>', flair: 'OC', permalink: 'https://www.reddit.com/r/pics/comments/one/' }),
+  createPost({
+    postId: 't3_two',
+    title: 'Gallery',
+    galleryId: 't3_two',
+    galleryIndex: 1,
+    gallerySize: 3,
+    imageUrl: 'https://i.redd.it/two.png',
+    permalink: 'https://www.reddit.com/r/pics/comments/two/',
+  }),
+];
+
+describe('formatCsvCell', () => {
+  it.each([
+    [null, false, ''],
+    [42, false, '42'],
+    ['plain', false, 'plain'],
+    ['a, "quoted" value', false, '"a, ""quoted"" value"'],
+    ['line\nbreak', false, '"line\nbreak"'],
+    ['=1+1', true, "'=1+1"],
+    ['-5', false, '-5'],
+  ])('formats %j (user text: %s) as %j', (value, isUserText, cell) => {
+    expect(formatCsvCell(value, isUserText)).toBe(cell);
+  });
+});
+
+describe('formatPosts', () => {
+  it('writes JSON and one JSON document per line for NDJSON', () => {
+    expect(JSON.parse(formatPosts(posts, 'json'))).toEqual(posts);
+    expect(formatPosts(posts, 'ndjson').trimEnd().split('\n').map(line => JSON.parse(line))).toEqual(posts);
+  });
+
+  it('writes a CSV row per post with formulas in user text escaped', () => {
+    const lines = formatPosts(posts, 'csv').split('\r\n');
+
+    expect(lines[0]).toBe(getPostCsvHeader());
+    expect(lines).toHaveLength(posts.length + 2); // Every row ends with a line break
+    expect(lines[1]).toContain(`"'=HYPERLINK(""x"") & <b>"`);
+  });
+
+  it('escapes titles and numbers gallery images in Markdown', () => {
+    const markdown = formatPosts(posts, 'markdown', metadata);
+
+    expect(markdown).toContain('# [Images from r/pics](<https://www.reddit.com/r/pics/>)');
+    expect(markdown).toContain('_2 images, exported 2026-01-02T03:04:05.000Z_');
+    expect(markdown).toContain('## [=HYPERLINK("x") & \\<b\\>](<https://www.reddit.com/r/pics/comments/one/>)');
+    expect(markdown).toContain('## [Gallery (2/3)]');
+  });
+
+  it('writes feeds with escaped text, unique item ids and media attachments', () => {
+    const rss = formatPosts(posts, 'rss', metadata);
+    expect(rss).toContain('<title>=HYPERLINK(&quot;x&quot;) &amp; &lt;b&gt;</title>');
+    expect(rss).toContain('<guid isPermaLink="false">https://www.reddit.com/r/pics/comments/two/#2</guid>');
+    expect(rss).toContain('<media:content url="https://i.redd.it/two.png" type="image/png" medium="image" />');
+    expect(rss).toContain('<category>OC</category>');
+
+    const atom = formatPosts(posts, 'atom', metadata);
+    expect(atom).toContain('<updated>2026-01-02T03:04:05.000Z</updated>');
+    expect(atom).toContain('<link rel="enclosure" href="https://i.redd.it/abc.jpg" type="image/jpeg" />');
+  });
+});
+
+describe('getDefaultExportMetadata', () => {
+  it('names the first subreddits and counts the rest', () => {
+    const subreddits = ['pics', 'earthporn', 'aww', 'cats'];
+    expect(getDefaultExportMetadata(subreddits.map(subreddit => createPost({ subreddit })))).toEqual({
+      title: 'Images from r/pics, r/earthporn, r/aww and 1 more',
+      link: 'https://www.reddit.com/r/pics+earthporn+aww+cats/',
+    });
+    expect(getDefaultExportMetadata([]).title).toBe('Reddit images');
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * @fileoverview Serializes scraped posts into portable formats: JSON (full metadata), NDJSON (one post per line,
+ * for streaming into other tools), CSV (one row per post, for spreadsheets), a Markdown gallery (for wikis and
+ * newsletters) and RSS 2.0 or Atom feeds.
+ *
+ * Pure functions without server dependencies, so the page can export the results it shows without a round trip.
+ */
+
+import type { PostReference, TrendyPost } from './subreddit-scraper';
+
+/**
+ * The formats posts can be written in.
+ */
+export const POST_EXPORT_FORMATS = ['json', 'ndjson', 'csv', 'markdown', 'rss', 'atom'] as const;
+export type PostExportFormat = typeof POST_EXPORT_FORMATS[number];
+
+/**
+ * MIME types to serve each format with.
+ */
+export const POST_EXPORT_CONTENT_TYPES: Record<PostExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+/**
+ * File extensions for each format.
+ */
+export const POST_EXPORT_FILE_EXTENSIONS: Record<PostExportFormat, string> = {
+  json: 'json',
+  ndjson: 'ndjson',
+  csv: 'csv',
+  markdown: 'md',
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+};
+
+/**
+ * Describes an export as a whole, for the formats that have a title (Markdown and feeds).
+ */
+export interface ExportMetadata {
+  title: string;
+
+  /**
+   * The page the posts come from, e.g. https://www.reddit.com/r/pics/.
+   */
+  link: string;
+
+  /**
+   * When the export was made. Defaults to now.
+   */
+  generatedAt?: Date;
+}
+
+// Subreddits named in a default title before the rest are summarized
+const MAX_TITLED_SUBREDDITS = 3;
+
+/**
+ * Describes an export by the subreddits its posts come from, e.g. "Images from r/pics, r/earthporn".
+ * @param posts The exported posts.
+ * @returns A title and a link to the subreddits' combined listing.
+ */
+export function getDefaultExportMetadata(posts: TrendyPost[]): ExportMetadata {
+  const subreddits = [...new Set(posts.map(post => post.subreddit))];
+  const named = subreddits.slice(0, MAX_TITLED_SUBREDDITS).map(subreddit => `r/${subreddit}`).join(', ');
+  const remaining = subreddits.length - MAX_TITLED_SUBREDDITS;
+  return {
+    title: subreddits.length === 0 ? 'Reddit images' : `Images from ${named}${remaining > 0 ? ` and ${remaining} more` : ''}`,
+    link: subreddits.length === 0 ? 'https://www.reddit.com/' : `https://www.reddit.com/r/${subreddits.join('+')}/`,
+  };
+}
+
+// --- CSV ---
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Lists of post references are flattened into one cell, as space-separated permalinks
+function formatReferences(references: PostReference[]): string {
+  return references.map(reference => reference.permalink).join(' ');
+}
+
+/**
+ * The CSV columns, in order, and how each is read from a post. Nested fields are flattened.
+ */
+const CSV_COLUMNS: [string, (post: TrendyPost) => CsvValue][] = [
+  ['postId', post => post.postId],
+  ['subreddit', post => post.subreddit],
+  ['title', post => post.title],
+  ['author', post => post.author],
+  ['permalink', post => post.permalink],
+  ['createdUtc', post => new Date(post.createdUtc * 1000).toISOString()],
+  ['mediaType', post => post.mediaType],
+  ['imageUrl', post => post.imageUrl],
+  ['videoUrl', post => post.video?.url],
+  ['videoDurationSeconds', post => post.video?.durationSeconds],
+  ['width', post => post.width],
+  ['height', post => post.height],
+  ['mediaId', post => post.mediaId],
+  ['score', post => post.score],
+  ['upvoteRatio', post => post.upvoteRatio],
+  ['numComments', post => post.numComments],
+  ['flair', post => post.flair],
+  ['over18', post => post.over18],
+  ['spoiler', post => post.spoiler],
+  ['stickied', post => post.stickied],
+  ['galleryId', post => post.galleryId],
+  ['galleryIndex', post => post.galleryIndex],
+  ['gallerySize', post => post.gallerySize],
+  ['crosspostParent', post => post.crosspostParent?.permalink],
+  ['alsoPostedIn', post => formatReferences(post.alsoPostedIn)],
+  ['duplicateCount', post => post.duplicateCount],
+];
+
+// Text columns written by Reddit users, which spreadsheets must not evaluate as formulas
+const USER_TEXT_COLUMNS = new Set(['title', 'author', 'flair']);
+
+/**
+ * Formats a value as a CSV cell (RFC 4180), quoting it if needed.
+ * @param value The cell value. Null and undefined become empty cells.
+ * @param isUserText Whether the value is free text from Reddit; a leading =, +, - or @ is then escaped with an
+ *   apostrophe so spreadsheets show it as text instead of running it as a formula.
+ */
+export function formatCsvCell(value: CsvValue, isUserText: boolean = false): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (isUserText && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The CSV header row (without a line break).
+ */
+export function getPostCsvHeader(): string {
+  return CSV_COLUMNS.map(([name]) => name).join(',');
+}
+
+/**
+ * Formats one post as a CSV row (without a line break), with the columns of `getPostCsvHeader`.
+ */
+export function formatPostCsvRow(post: TrendyPost): string {
+  return CSV_COLUMNS.map(([name, read]) => formatCsvCell(read(post), USER_TEXT_COLUMNS.has(name))).join(',');
+}
+// --- End CSV ---
+
+// --- Markdown and Feeds ---
+
+// Gallery images share their post's title and permalink; the position tells them apart
+function getItemTitle(post: TrendyPost): string {
+  return post.galleryIndex !== undefined && post.gallerySize !== undefined
+    ? `${post.title} (${post.galleryIndex + 1}/${post.gallerySize})`
+    : post.title;
+}
+
+function getItemId(post: TrendyPost): string {
+  return post.galleryIndex !== undefined ? `${post.permalink}#${post.galleryIndex + 1}` : post.permalink;
+}
+
+function getItemSummary(post: TrendyPost): string {
+  return `r/${post.subreddit} · u/${post.author} · ${post.score} points · ${post.numComments} comments`;
+}
+
+// Escapes characters Markdown would treat as formatting, link brackets or HTML in inline text
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, character => `\\${character}`);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, ''); // Control characters are not allowed in XML
+}
+
+/**
+ * Formats posts as a Markdown gallery: a heading per post, its image (linking to the video for videos) and a
+ * line of details.
+ */
+function formatMarkdown(posts: TrendyPost[], metadata: ExportMetadata, generatedAt: Date): string {
+  const sections = posts.map(post => {
+    const title = escapeMarkdown(getItemTitle(post));
+    const image = `![${title}](<${post.imageUrl}>)`;
+    return [
+      `## [${title}](<${post.permalink}>)`,
+      '',
+      post.video ? `[${image}](<${post.video.url}>)` : image,
+      '',
+      escapeMarkdown(getItemSummary(post)),
+    ].join('\n');
+  });
+  return [
+    `# [${escapeMarkdown(metadata.title)}](<${metadata.link}>)`,
+    '',
+    `_${posts.length} images, exported ${generatedAt.toISOString()}_`,
+    ...sections.flatMap(section => ['', section]),
+  ].join('\n') + '\n';
+}
+
+// The item body shown by feed readers, as HTML
+function getItemHtml(post: TrendyPost): string {
+  const image = `<img src="${escapeXml(post.imageUrl)}" alt="${escapeXml(post.title)}">`;
+  const media = post.video ? `<a href="${escapeXml(post.video.url)}">${image}</a>` : image;
+  return `<p>${media}</p><p>${escapeXml(getItemSummary(post))}</p>`;
+}
+
+function getMediaMimeType(post: TrendyPost): string {
+  if (post.video) return 'video/mp4';
+  const extension = post.imageUrl.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return extension === 'png' ? 'image/png' : extension === 'gif' ? 'image/gif' : extension === 'webp' ? 'image/webp' : 'image/jpeg';
+}
+
+/**
+ * Formats posts as an RSS 2.0 feed, with each image or video as a Media RSS attachment.
+ */
+function formatRss(posts: TrendyPost[], metadata: ExportMetadata, generatedAt: Date): string {
+  const items = posts.map(post => [
+    '    <item>',
+    `      <title>${escapeXml(getItemTitle(post))}</title>`,
+    `      <link>${escapeXml(post.permalink)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(getItemId(post))}</guid>`,
+    `      <pubDate>${new Date(post.createdUtc * 1000).toUTCString()}</pubDate>`,
+    `      <dc:creator>u/${escapeXml(post.author)}</dc:creator>`,
+    ...(post.flair ? [`      <category>${escapeXml(post.flair)}</category>`] : []),
+    `      <description>${escapeXml(getItemHtml(post))}</description>`,
+    `      <media:content url="${escapeXml(post.video?.url ?? post.imageUrl)}" type="${getMediaMimeType(post)}" medium="${post.video ? 'video' : 'image'}" />`,
+    '    </item>',
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:media="http://search.yahoo.com/mrss/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(metadata.title)}</title>`,
+    `    <link>${escapeXml(metadata.link)}</link>`,
+    `    <description>${escapeXml(`${posts.length} images scraped from Reddit`)}</description>`,
+    `    <lastBuildDate>${generatedAt.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Formats posts as an Atom feed, with each image or video as an enclosure link.
+ */
+function formatAtom(posts: TrendyPost[], metadata: ExportMetadata, generatedAt: Date): string {
+  const entries = posts.map(post => [
+    '  <entry>',
+    `    <title>${escapeXml(getItemTitle(post))}</title>`,
+    `    <id>${escapeXml(getItemId(post))}</id>`,
+    `    <link rel="alternate" href="${escapeXml(post.permalink)}" />`,
+    `    <link rel="enclosure" href="${escapeXml(post.video?.url ?? post.imageUrl)}" type="${getMediaMimeType(post)}" />`,
+    `    <updated>${new Date(post.createdUtc * 1000).toISOString()}</updated>`,
+    `    <author><name>u/${escapeXml(post.author)}</name></author>`,
+    ...(post.flair ? [`    <category term="${escapeXml(post.flair)}" />`] : []),
+    `    <content type="html">${escapeXml(getItemHtml(post))}</content>`,
+    '  </entry>',
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(metadata.title)}</title>`,
+    `  <id>${escapeXml(metadata.link)}</id>`,
+    `  <link rel="alternate" href="${escapeXml(metadata.link)}" />`,
+    `  <updated>${generatedAt.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+  ].join('\n') + '\n';
+}
+// --- End Markdown and Feeds ---
+
+/**
+ * Serializes posts in the given format.
+ * @param posts The posts, in the order to write them.
+ * @param format The output format.
+ * @param metadata The title and link of the export, for Markdown and feeds. Defaults to one describing
+ *   the posts' subreddits (see getDefaultExportMetadata).
+ * @returns The document, ending with a line break.
+ */
+export function formatPosts(posts: TrendyPost[], format: PostExportFormat, metadata: ExportMetadata = getDefaultExportMetadata(posts)): string {
+  const generatedAt = metadata.generatedAt ?? new Date();
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(posts, null, 2)}\n`;
+    case 'ndjson':
+      return posts.map(post => `${JSON.stringify(post)}\n`).join('');
+    case 'csv':
+      return [getPostCsvHeader(), ...posts.map(formatPostCsvRow)].map(line => `${line}\r\n`).join('');
+    case 'markdown':
+      return formatMarkdown(posts, metadata, generatedAt);
+    case 'rss':
+      return formatRss(posts, metadata, generatedAt);
+    case 'atom':
+      return formatAtom(posts, metadata, generatedAt);
+  }
+}
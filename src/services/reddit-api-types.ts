@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Types for the parts of Reddit API responses the scraper reads (simplified).
+ */
+
+export interface RedditTokenResponse {
+  access_token: string;
+  token_type: string; // Should be "bearer"
+  expires_in: number; // Duration in seconds (usually 3600)
+  scope: string;
+}
+
+export interface RedditPostData {
+  title: string;
+  name: string; // Fullname, e.g., t3_abcde
+  url: string;
+  author: string;
+  subreddit: string;
+  permalink: string; // Relative, e.g. /r/pics/comments/abcde/title/
+  created_utc: number;
+  score: number;
+  upvote_ratio: number;
+  num_comments: number;
+  link_flair_text?: string | null;
+  over_18: boolean;
+  spoiler: boolean;
+  stickied: boolean;
+  thumbnail?: string;
+  is_video: boolean;
+  is_gallery?: boolean;
+  gallery_data?: RedditGalleryData | null; // Item order for gallery posts
+  media_metadata?: Record<string, RedditMediaMetadata> | null; // Media details keyed by media_id
+  preview?: RedditPreview; // Reddit-generated previews, present for most link and image posts
+  media?: RedditMedia | null; // Hosted video details for v.redd.it posts
+  secure_media?: RedditMedia | null; // Same as 'media', with https URLs
+  crosspost_parent?: string; // Fullname of the original post, for crossposts
+  crosspost_parent_list?: RedditPostData[]; // The original post's data (media included), for crossposts
+  // Add other fields if needed
+}
+
+export interface RedditPreviewImageSource {
+  url: string; // HTML-escaped, e.g. '&amp;'
+  width: number;
+  height: number;
+}
+
+export interface RedditPreviewImage {
+  id: string;
+  source?: RedditPreviewImageSource;
+  resolutions?: RedditPreviewImageSource[]; // Ascending by width
+}
+
+export interface RedditPreview {
+  images?: RedditPreviewImage[];
+  enabled?: boolean;
+  reddit_video_preview?: RedditVideo; // Video rendition of animated link posts (e.g., Imgur gifv)
+}
+
+export interface RedditVideo {
+  fallback_url: string; // MP4 without audio, e.g. https://v.redd.it/<id>/DASH_720.mp4?source=fallback
+  hls_url?: string; // HLS playlist, with audio when the video has any
+  dash_url?: string; // DASH manifest
+  duration?: number; // Seconds
+  width?: number;
+  height?: number;
+  is_gif?: boolean; // Silent, looping animation
+  has_audio?: boolean;
+}
+
+export interface RedditMedia {
+  reddit_video?: RedditVideo;
+}
+
+export interface RedditGalleryItem {
+  media_id: string; // Key into media_metadata
+  id: number;
+  caption?: string;
+}
+
+export interface RedditGalleryData {
+  items: RedditGalleryItem[];
+}
+
+export interface RedditMediaMetadataSource {
+  u?: string; // Image URL (HTML-escaped, e.g. '&amp;')
+  gif?: string; // Set instead of 'u' for animated images
+  mp4?: string;
+  x: number;
+  y: number;
+}
+
+export interface RedditMediaMetadata {
+  status: string; // "valid" once processed
+  e: string; // Element type, e.g. "Image" or "AnimatedImage"
+  m?: string; // MIME type, e.g. "image/jpg"
+  s?: RedditMediaMetadataSource; // Full-size source
+  p?: RedditMediaMetadataSource[]; // Downscaled previews
+}
+
+export interface RedditListingChild {
+  kind: string; // e.g., "t3" for posts
+  data: RedditPostData;
+}
+
+export interface RedditListingData {
+  after: string | null; // For pagination
+  dist: number;
+  modhash: string;
+  geo_filter: string | null;
+  children: RedditListingChild[];
+  before: string | null; // For pagination
+}
+
+export interface RedditApiResponse {
+  kind: string; // e.g., "Listing"
+  data: RedditListingData;
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RedditClient } from './reddit-client';
+import type { RedditConfig } from './reddit-config';
+
+const config: RedditConfig = {
+  clientId: 'mock-client',
+  clientSecret: 'mock-secret',
+  authBaseUrl: 'http://127.0.0.1:1',
+  apiBaseUrl: 'http://127.0.0.1:1',
+  maxRetries: 0,
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('RedditClient', () => {
+  it('uses a complete configuration without reading the environment', () => {
+    vi.stubEnv('REDDIT_API_BASE_URL', 'not a url');
+    expect(new RedditClient({ config }).config).toEqual(config);
+  });
+
+  it('fills a partial configuration from the environment', () => {
+    vi.stubEnv('REDDIT_CLIENT_ID', 'env-client');
+    vi.stubEnv('REDDIT_CLIENT_SECRET', 'env-secret');
+    const client = new RedditClient({ config: { apiBaseUrl: 'http://127.0.0.1:2', clientSecret: undefined } });
+
+    expect(client.config).toMatchObject({ clientId: 'env-client', clientSecret: 'env-secret', apiBaseUrl: 'http://127.0.0.1:2' });
+  });
+
+  it('reports an invalid environment when it has to read it', () => {
+    vi.stubEnv('REDDIT_API_BASE_URL', 'not a url');
+    expect(() => new RedditClient({ config: { clientId: 'mock-client' } })).toThrow(expect.objectContaining({ code: 'INVALID_CONFIG' }));
+  });
+
+  it('sends token and API requests through the injected fetch', async () => {
+    const requests: string[] = [];
+    const client = new RedditClient({
+      config,
+      fetch: async input => {
+        requests.push(input);
+        return input.endsWith('/api/v1/access_token')
+          ? Response.json({ access_token: 'token', token_type: 'bearer', expires_in: 3600 })
+          : Response.json({ kind: 'Listing', data: { after: null, children: [] } });
+      },
+    });
+
+    const listing = await client.getListing('/r/pics/hot', new URLSearchParams({ limit: '1' }), 'r/pics');
+    expect(listing.data.children).toEqual([]);
+    expect(requests).toEqual(['http://127.0.0.1:1/api/v1/access_token', 'http://127.0.0.1:1/r/pics/hot?limit=1']);
+  });
+
+  it('discards the rejected response before retrying with a fresh token', async () => {
+    let tokensIssued = 0;
+    let rejectedBodyCancelled = false;
+    const client = new RedditClient({
+      config,
+      fetch: async (input, init) => {
+        if (input.endsWith('/api/v1/access_token')) {
+          return Response.json({ access_token: `token-${++tokensIssued}`, token_type: 'bearer', expires_in: 3600 });
+        }
+        if (new Headers(init?.headers).get('Authorization') === 'Bearer token-1') {
+          const body = new ReadableStream({ cancel: () => { rejectedBodyCancelled = true; } });
+          return new Response(body, { status: 401 });
+        }
+        return Response.json({ kind: 'Listing', data: { after: null, children: [] } });
+      },
+    });
+
+    await client.getListing('/r/pics/hot', new URLSearchParams(), 'r/pics');
+    expect(tokensIssued).toBe(2);
+    expect(rejectedBodyCancelled).toBe(true);
+  });
+});
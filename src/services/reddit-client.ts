@@ -0,0 +1,319 @@
+/**
+ * @fileoverview HTTP client for the Reddit API: application-only OAuth, rate limiting and listing requests.
+ * Base URLs come from validated configuration and the `fetch` implementation is injectable, so the client
+ * can be pointed at a local mock server or given a stub transport.
+ */
+
+import type { RedditApiResponse, RedditTokenResponse } from './reddit-api-types';
+import { getRedditConfig, type RedditConfig } from './reddit-config';
+import { RedditRateLimiter, type RateLimitBudget } from './reddit-rate-limiter';
+import {
+  InvalidListingError,
+  RateLimitedError,
+  RedditApiError,
+  RedditAuthError,
+  RedditCredentialsMissingError,
+  RedditUnreachableError,
+  ScraperError,
+  SubredditForbiddenError,
+  SubredditNotFoundError,
+} from './scraper-errors';
+
+/**
+ * The subset of `fetch` the client uses. Any compatible implementation (undici, a test stub, ...) can be passed in.
+ */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options for creating a RedditClient.
+ */
+export interface RedditClientOptions {
+  /**
+   * Overrides for the configuration read from environment variables.
+   * A complete configuration is used as is, without reading (or validating) the environment.
+   */
+  config?: Partial<RedditConfig>;
+
+  /**
+   * The fetch implementation to send requests with. Defaults to the global `fetch`.
+   */
+  fetch?: FetchLike;
+
+  /**
+   * The rate limiter to send API requests through. Defaults to a new limiter using `config.maxRetries`.
+   */
+  rateLimiter?: RedditRateLimiter;
+}
+
+const REDDIT_CONFIG_KEYS = ['clientId', 'clientSecret', 'authBaseUrl', 'apiBaseUrl', 'maxRetries'] as const satisfies readonly (keyof RedditConfig)[];
+
+/**
+ * Returns the configuration to use: the overrides on their own if they set every option,
+ * otherwise the environment's configuration with the overrides applied.
+ * @throws RedditConfigError if the environment has to be read and is invalid.
+ */
+function resolveRedditConfig(overrides: Partial<RedditConfig> = {}): RedditConfig {
+  // Options explicitly set to undefined fall back to the environment instead of overriding it
+  const definedOverrides: Partial<RedditConfig> = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  if (REDDIT_CONFIG_KEYS.every(key => key in definedOverrides)) {
+    return definedOverrides as RedditConfig;
+  }
+  return { ...getRedditConfig(), ...definedOverrides };
+}
+
+/**
+ * A Reddit API client holding its own access token cache and request budget.
+ */
+export class RedditClient {
+  readonly config: RedditConfig;
+  private readonly fetchImpl: FetchLike;
+  private readonly rateLimiter: RedditRateLimiter;
+
+  // --- Simple In-Memory Token Cache ---
+  private accessToken: string | null = null;
+  private tokenExpiryTime: number | null = null;
+  // In-flight token request shared by concurrent callers (single-flight), so a burst of scrapes
+  // triggers one call to /api/v1/access_token rather than one each.
+  private pendingTokenRequest: Promise<string> | null = null;
+  // --- End Token Cache ---
+
+  constructor(options: RedditClientOptions = {}) {
+    this.config = resolveRedditConfig(options.config);
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.rateLimiter = options.rateLimiter ?? new RedditRateLimiter({ maxRetries: this.config.maxRetries ?? undefined });
+  }
+
+  /**
+   * Returns true if both the client ID and secret are configured.
+   */
+  hasCredentials(): boolean {
+    return !!this.config.clientId && !!this.config.clientSecret;
+  }
+
+  /**
+   * Returns the request budget as last reported by Reddit.
+   */
+  getRateLimitBudget(): RateLimitBudget {
+    return this.rateLimiter.getBudget();
+  }
+
+  /**
+   * Fetches and validates a single listing.
+   * If Reddit rejects the cached access token (401), the token is refreshed and the request retried once.
+   * @param path The listing path, e.g. "/r/pics/hot" or "/by_id/t3_abcde".
+   * @param params The query parameters (limit, t, after, ...).
+   * @param targetLabel The target as shown to users (e.g., "r/pics"), used in error messages.
+   * @returns The parsed listing response.
+   * @throws A ScraperError subclass matching the failed status, or InvalidListingError for an unexpected response structure.
+   */
+  async getListing(path: string, params: URLSearchParams, targetLabel: string): Promise<RedditApiResponse> {
+    const apiUrl = `${this.config.apiBaseUrl}${path}?${params.toString()}`;
+    const accessToken = await this.getAccessToken();
+    let response = await this.sendApiRequest(apiUrl, accessToken, targetLabel);
+
+    if (response.status === 401) {
+      // The token was revoked or expired before our cached expiry time: refresh it and retry once
+      console.warn(`Reddit rejected the access token for ${targetLabel} (401). Refreshing the token and retrying once.`);
+      await response.body?.cancel().catch(() => undefined); // Frees the connection of the discarded response
+      this.invalidateAccessToken(accessToken);
+      const refreshedToken = await this.getAccessToken();
+      response = await this.sendApiRequest(apiUrl, refreshedToken, targetLabel);
+    }
+
+    if (!response.ok) {
+      console.error(`Failed to fetch ${targetLabel} data. Status: ${response.status} ${response.statusText}`);
+       if (response.status === 401) {
+         throw new RedditAuthError(`Reddit API authentication failed (401 Unauthorized), even with a freshly issued access token. Check your API credentials.`);
+       }
+       if (response.status === 404) {
+         throw new SubredditNotFoundError(targetLabel);
+       }
+       if (response.status === 403) {
+         // This might indicate a private subreddit, invalid token, permissions, or API rule violation
+         throw new SubredditForbiddenError(targetLabel);
+       }
+       if (response.status === 429) {
+          // Retries are exhausted at this point; tell the user how long the window has left
+          const resetsAt = this.rateLimiter.getBudget().resetsAt;
+          const retryAfter = Number(response.headers.get('Retry-After')) || (resetsAt ? (resetsAt - Date.now()) / 1000 : NaN);
+          throw new RateLimitedError(Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null);
+       }
+      // Generic error for other failed statuses
+      throw new RedditApiError(response.status);
+    }
+
+    let listing: RedditApiResponse;
+    try {
+      listing = (await response.json()) as RedditApiResponse;
+    } catch (e) {
+      throw new InvalidListingError("Received a response from Reddit API that is not valid JSON.");
+    }
+
+    if (!listing || listing.kind !== 'Listing' || !listing.data || !Array.isArray(listing.data.children)) {
+      console.error("Unexpected API response structure:", listing);
+      throw new InvalidListingError();
+    }
+
+    return listing;
+  }
+
+  /**
+   * Retrieves an Application Only OAuth access token from Reddit.
+   * Caches the token in memory until it expires, and shares a single in-flight request between concurrent callers.
+   * @returns A promise resolving to the access token string.
+   * @throws RedditCredentialsMissingError if credentials are missing, RedditAuthError if Reddit rejects them,
+   *   or RedditUnreachableError if the token request fails.
+   */
+  async getAccessToken(): Promise<string> {
+    const now = Date.now();
+
+    // Check cache first
+    if (this.accessToken && this.tokenExpiryTime && now < this.tokenExpiryTime) {
+      return this.accessToken;
+    }
+
+    // Join a token request that is already under way
+    if (!this.pendingTokenRequest) {
+      this.pendingTokenRequest = this.requestAccessToken().finally(() => {
+        this.pendingTokenRequest = null;
+      });
+    }
+    return this.pendingTokenRequest;
+  }
+
+  /**
+   * Discards the cached access token if it is the given (rejected) token.
+   * A token refreshed by another caller in the meantime is kept, so concurrent 401s cause one refresh, not several.
+   * @param rejectedToken The token Reddit answered 401 for.
+   */
+  private invalidateAccessToken(rejectedToken: string): void {
+    if (this.accessToken === rejectedToken) {
+      this.accessToken = null;
+      this.tokenExpiryTime = null;
+    }
+  }
+
+  /**
+   * Requests a new access token from Reddit and stores it in the cache.
+   * Use `getAccessToken` instead, which adds caching and single-flight.
+   * @returns A promise resolving to the new access token string.
+   */
+  private async requestAccessToken(): Promise<string> {
+    const { clientId, clientSecret } = this.config;
+
+    if (!clientId || !clientSecret) {
+      console.error("REDDIT_CLIENT_ID or REDDIT_CLIENT_SECRET environment variables are not set.");
+      throw new RedditCredentialsMissingError();
+    }
+
+    const tokenUrl = `${this.config.authBaseUrl}/api/v1/access_token`;
+    const authString = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+
+    try {
+      const response = await this.fetchImpl(tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${authString}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': this.getUserAgent(),
+        },
+        body: 'grant_type=client_credentials',
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`Failed to get Reddit access token. Status: ${response.status}. Body: ${errorBody}`);
+        // More specific error for 401 Unauthorized
+        if (response.status === 401) {
+          throw new RedditAuthError();
+        }
+        throw new RedditApiError(response.status, `Failed to authenticate with Reddit API. Status: ${response.status}`);
+      }
+
+      const tokenData = (await response.json()) as RedditTokenResponse;
+
+      if (tokenData.token_type !== 'bearer') {
+        console.error("Received unexpected token type:", tokenData.token_type);
+        throw new RedditAuthError("Failed to get a valid bearer token from Reddit.");
+      }
+
+      this.accessToken = tokenData.access_token;
+      // Set expiry time slightly before actual expiry (e.g., 5 minutes buffer)
+      this.tokenExpiryTime = Date.now() + (tokenData.expires_in - 300) * 1000;
+
+      return this.accessToken;
+    } catch (error) {
+      console.error("Error fetching Reddit access token:", error);
+      // Clear potentially stale cache on error
+      this.accessToken = null;
+      this.tokenExpiryTime = null;
+      // Re-throw a more user-friendly error or the original one
+      if (error instanceof ScraperError) {
+          throw error;
+      }
+      throw new RedditUnreachableError("Could not connect to Reddit API to get access token.");
+    }
+  }
+
+  /**
+   * Sends an authenticated GET request through the rate limiter,
+   * which waits out a low budget and retries 429/5xx responses.
+   * @param apiUrl The full request URL.
+   * @param accessToken The OAuth bearer token.
+   * @param targetLabel The target as shown to users, used in error messages.
+   * @returns The final response, whatever its status.
+   * @throws RedditUnreachableError if the request could not be sent.
+   */
+  private async sendApiRequest(apiUrl: string, accessToken: string, targetLabel: string): Promise<Response> {
+    try {
+      return await this.rateLimiter.execute(() => this.fetchImpl(apiUrl, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'User-Agent': this.getUserAgent(),
+        },
+      }));
+    } catch (e) {
+      if (e instanceof RateLimitedError) {
+        throw e; // The rate limiter refused to wait for the window to reset
+      }
+      throw new RedditUnreachableError(`Could not connect to Reddit API to fetch ${targetLabel}.`);
+    }
+  }
+
+  /**
+   * Generates a unique User-Agent string required by the Reddit API.
+   * Format: <platform>:<app ID>:<version string> (by /u/<reddit username>)
+   * IMPORTANT: Reddit uses the User-Agent for tracking and enforcing API rules.
+   * Using a descriptive and unique User-Agent is crucial.
+   * @returns A formatted User-Agent string.
+   */
+  private getUserAgent(): string {
+    const platform = "web"; // Or 'node', 'browser', etc.
+    const appId = this.config.clientId || "unknown-app-id";
+    const version = "1.0.0"; // Your app's version
+    return `${platform}:${appId}:${version} (NextJS Subreddit Scraper)`; // Example without username
+  }
+}
+
+// --- Shared Default Client ---
+// Reddit tracks the request budget per OAuth client, so the app shares one client (and one limiter).
+let defaultClient: RedditClient | null = null;
+
+/**
+ * Returns the shared client configured from environment variables, creating it on first use.
+ * @throws RedditConfigError if the environment configuration is invalid.
+ */
+export function getDefaultRedditClient(): RedditClient {
+  if (!defaultClient) {
+    defaultClient = new RedditClient();
+  }
+  return defaultClient;
+}
+
+/**
+ * Returns the shared client if it has been created, without creating it.
+ */
+export function peekDefaultRedditClient(): RedditClient | null {
+  return defaultClient;
+}
+// --- End Default Client ---
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Validated configuration for the Reddit API client, read from environment variables.
+ *
+ * - REDDIT_CLIENT_ID / REDDIT_CLIENT_SECRET: app credentials (required to scrape).
+ * - REDDIT_AUTH_BASE_URL: where access tokens are requested (default https://www.reddit.com).
+ * - REDDIT_API_BASE_URL: where authenticated API requests go (default https://oauth.reddit.com).
+ * - REDDIT_MAX_RETRIES: retries for 429/5xx responses (default 3).
+ *
+ * Point both base URLs at a local mock server to run without network access.
+ */
+
+import { z } from 'zod';
+import { RedditConfigError } from './scraper-errors';
+
+/**
+ * Configuration for a RedditClient.
+ */
+export interface RedditConfig {
+  clientId: string | null;
+  clientSecret: string | null;
+  /**
+   * Base URL for the token endpoint (`/api/v1/access_token`), without a trailing slash.
+   */
+  authBaseUrl: string;
+  /**
+   * Base URL for authenticated API requests, without a trailing slash.
+   */
+  apiBaseUrl: string;
+  /**
+   * Maximum retries for 429/5xx responses, or null for the rate limiter's default.
+   */
+  maxRetries: number | null;
+}
+
+const baseUrlSchema = z.string()
+  .url()
+  // Refinements also run after `url()` fails, so the URL may not parse here
+  .refine(url => URL.canParse(url) && /^https?:$/.test(new URL(url).protocol), { message: "must use http or https" })
+  .transform(url => url.replace(/\/+$/, '')); // Paths are appended with a leading slash
+
+const envSchema = z.object({
+  REDDIT_CLIENT_ID: z.string().trim().min(1).optional(),
+  REDDIT_CLIENT_SECRET: z.string().trim().min(1).optional(),
+  REDDIT_AUTH_BASE_URL: baseUrlSchema.default('https://www.reddit.com'),
+  REDDIT_API_BASE_URL: baseUrlSchema.default('https://oauth.reddit.com'),
+  REDDIT_MAX_RETRIES: z.coerce.number().int().min(0).max(10).optional(),
+});
+
+/**
+ * Reads and validates the Reddit configuration from environment variables.
+ * Empty variables are treated as unset.
+ * @param env The environment to read (defaults to process.env).
+ * @returns The validated configuration.
+ * @throws RedditConfigError if a variable is set to an invalid value.
+ */
+export function getRedditConfig(env: Record<string, string | undefined> = process.env): RedditConfig {
+  const definedEnv = Object.fromEntries(
+    Object.entries(env).filter(([key, value]) => key.startsWith('REDDIT_') && value !== undefined && value !== '')
+  );
+  const result = envSchema.safeParse(definedEnv);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new RedditConfigError(`Invalid Reddit configuration: ${issue?.path.join('.')} ${issue?.message}.`);
+  }
+
+  const config = result.data;
+  return {
+    clientId: config.REDDIT_CLIENT_ID ?? null,
+    clientSecret: config.REDDIT_CLIENT_SECRET ?? null,
+    authBaseUrl: config.REDDIT_AUTH_BASE_URL,
+    apiBaseUrl: config.REDDIT_API_BASE_URL,
+    maxRetries: config.REDDIT_MAX_RETRIES ?? null,
+  };
+}
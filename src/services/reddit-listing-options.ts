@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Listing sorts and time windows supported by the Reddit API.
+ */
+
+/**
+ * Listing sorts supported by the Reddit API for a subreddit.
+ */
+export const REDDIT_SORTS = ['hot', 'new', 'top', 'rising', 'controversial', 'best'] as const;
+export type RedditSort = typeof REDDIT_SORTS[number];
+
+/**
+ * Time windows accepted by the `t` parameter of the 'top' and 'controversial' listings.
+ */
+export const REDDIT_TIME_WINDOWS = ['hour', 'day', 'week', 'month', 'year', 'all'] as const;
+export type RedditTimeWindow = typeof REDDIT_TIME_WINDOWS[number];
+
+/**
+ * Returns true if the given sort accepts a time window (`t` parameter).
+ * @param sort The listing sort.
+ */
+export function sortSupportsTimeWindow(sort: RedditSort): boolean {
+  return sort === 'top' || sort === 'controversial';
+}
+
+/**
+ * Result sorts supported by Reddit search.
+ */
+export const REDDIT_SEARCH_SORTS = ['relevance', 'hot', 'top', 'new', 'comments'] as const;
+export type RedditSearchSort = typeof REDDIT_SEARCH_SORTS[number];
+
+/**
+ * Returns true if the given search sort accepts a time window (`t` parameter).
+ * @param sort The search sort.
+ */
+export function searchSortSupportsTimeWindow(sort: RedditSearchSort): boolean {
+  return sort === 'relevance' || sort === 'top' || sort === 'comments';
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { RedditRateLimiter } from './reddit-rate-limiter';
+
+function budgetHeaders(remaining: number, resetSeconds: number): HeadersInit {
+  return { 'X-Ratelimit-Remaining': String(remaining), 'X-Ratelimit-Used': '0', 'X-Ratelimit-Reset': String(resetSeconds) };
+}
+
+describe('RedditRateLimiter', () => {
+  it('rejects requests when the budget is spent and the window resets after the longest wait', async () => {
+    const limiter = new RedditRateLimiter({ maxDelayMs: 1_000 });
+    limiter.update(new Headers(budgetHeaders(0, 60)));
+    let sent = 0;
+
+    await expect(limiter.execute(async () => { sent++; return new Response(); })).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+    expect(sent).toBe(0);
+  });
+
+  it('holds requests until the window resets, then sends one before the rest', async () => {
+    const limiter = new RedditRateLimiter();
+    limiter.update(new Headers(budgetHeaders(0, 0.05)));
+    const resetsAt = Date.now() + 50;
+    const events: string[] = [];
+
+    await Promise.all([1, 2, 3].map(id => limiter.execute(async () => {
+      events.push(`send ${id}`);
+      expect(Date.now()).toBeGreaterThanOrEqual(resetsAt - 5); // Timers may fire a few milliseconds early
+      await new Promise(resolve => setTimeout(resolve, 10));
+      events.push(`done ${id}`);
+      return new Response(null, { headers: budgetHeaders(100, 600) });
+    })));
+
+    expect(events.slice(0, 2)).toEqual(['send 1', 'done 1']);
+    expect(events.slice(2, 4)).toEqual(['send 2', 'send 3']); // The new budget lets the others go together
+  });
+
+  it('cancels the bodies of responses it retries', async () => {
+    const limiter = new RedditRateLimiter({ baseDelayMs: 1 });
+    let cancelled = false;
+    const responses = [
+      new Response(new ReadableStream({ cancel: () => { cancelled = true; } }), { status: 503 }),
+      new Response('ok'),
+    ];
+
+    const response = await limiter.execute(async () => responses.shift()!);
+    expect(await response.text()).toBe('ok');
+    expect(cancelled).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Rate-limit aware request layer for the Reddit API.
+ * Tracks the budget Reddit reports in X-Ratelimit-* headers, holds requests back when the budget is
+ * nearly spent, and retries 429 and 5xx responses with jittered exponential backoff.
+ */
+
+import { RateLimitedError } from './scraper-errors';
+
+/**
+ * The request budget most recently reported by Reddit.
+ */
+export interface RateLimitBudget {
+  /**
+   * Requests left in the current window (X-Ratelimit-Remaining), or null if Reddit has not reported it yet.
+   */
+  remaining: number | null;
+
+  /**
+   * Requests used in the current window (X-Ratelimit-Used).
+   */
+  used: number | null;
+
+  /**
+   * When the current window resets, in milliseconds since the Unix epoch (from X-Ratelimit-Reset).
+   */
+  resetsAt: number | null;
+
+  /**
+   * When the budget was last updated from a response, in milliseconds since the Unix epoch.
+   */
+  updatedAt: number | null;
+}
+
+/**
+ * Options for the rate limiter.
+ */
+export interface RateLimiterOptions {
+  /**
+   * Maximum number of retries for a request answered with 429 or 5xx. Defaults to 3.
+   */
+  maxRetries?: number;
+
+  /**
+   * Base delay for exponential backoff, in milliseconds. Defaults to 500.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for a single backoff or reset wait, in milliseconds. Requests that would have to wait longer for
+   * the window to reset are rejected with RateLimitedError instead. Defaults to 30 seconds.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Requests are held back until the window resets once `remaining` drops to this value. Defaults to 5.
+   */
+  minRemaining?: number;
+}
+
+const DEFAULT_OPTIONS: Required<RateLimiterOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  minRemaining: 5,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parses a numeric header value, returning null if it is missing or not a finite number.
+ */
+function parseNumericHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(name);
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Returns true for statuses worth retrying: rate limiting and server-side failures.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Shares Reddit's request budget between all requests sent through it.
+ * One instance should be used per set of credentials, since Reddit tracks the budget per OAuth client.
+ */
+export class RedditRateLimiter {
+  private readonly options: Required<RateLimiterOptions>;
+  private budget: RateLimitBudget = { remaining: null, used: null, resetsAt: null, updatedAt: null };
+  // Callers waiting for the window to reset queue up behind this promise, in arrival order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimiterOptions = {}) {
+    // Options explicitly set to undefined fall back to the defaults instead of overriding them
+    const definedOptions = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+    this.options = { ...DEFAULT_OPTIONS, ...definedOptions };
+  }
+
+  /**
+   * Returns a snapshot of the current budget.
+   */
+  getBudget(): RateLimitBudget {
+    return { ...this.budget };
+  }
+
+  /**
+   * Sends a request through the limiter: waits if the budget is nearly spent, records the budget from the
+   * response headers, and retries 429/5xx responses up to `maxRetries` times.
+   * @param send Sends the request. Called once per attempt.
+   * @returns The final response. Non-retryable and exhausted-retry responses are returned, not thrown.
+   * @throws RateLimitedError if the budget is spent and the window resets more than `maxDelayMs` from now.
+   */
+  async execute(send: () => Promise<Response>): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const release = await this.acquire();
+      let response: Response;
+      try {
+        response = await send();
+        this.update(response.headers);
+      } finally {
+        release();
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= this.options.maxRetries) {
+        return response;
+      }
+
+      const delay = this.getRetryDelay(response, attempt);
+      console.warn(`Reddit API responded ${response.status}. Retrying in ${delay}ms (attempt ${attempt + 1} of ${this.options.maxRetries}).`);
+      await response.body?.cancel().catch(() => undefined); // Frees the connection of the discarded response
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Records the budget reported in a response's X-Ratelimit-* headers.
+   * Responses without these headers leave the budget unchanged.
+   */
+  update(headers: Headers): void {
+    const remaining = parseNumericHeader(headers, 'X-Ratelimit-Remaining');
+    const used = parseNumericHeader(headers, 'X-Ratelimit-Used');
+    const resetSeconds = parseNumericHeader(headers, 'X-Ratelimit-Reset');
+    if (remaining === null && used === null && resetSeconds === null) {
+      return;
+    }
+
+    const now = Date.now();
+    this.budget = {
+      remaining: remaining ?? this.budget.remaining,
+      used: used ?? this.budget.used,
+      resetsAt: resetSeconds !== null ? now + resetSeconds * 1000 : this.budget.resetsAt,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Waits until a request may be sent, then reserves one unit of the budget.
+   * While the budget is low, callers wait for the window to reset (or are rejected if it resets too late).
+   * The first request after a reset goes alone; the others follow once its response reports the new budget.
+   * @returns A function to call once the request's response has been recorded (or the request failed).
+   * @throws RateLimitedError if the window resets more than `maxDelayMs` from now.
+   */
+  private acquire(): Promise<() => void> {
+    let release: () => void = () => undefined;
+    const responded = new Promise<void>(resolve => { release = resolve; });
+
+    const turn = this.queue.then(async () => {
+      const { remaining, resetsAt } = this.budget;
+      if (remaining === null || resetsAt === null || remaining > this.options.minRemaining) {
+        if (remaining !== null) {
+          // Reserve a request so concurrent callers don't all spend the last of the budget
+          this.budget = { ...this.budget, remaining: Math.max(remaining - 1, 0) };
+        }
+        return false;
+      }
+
+      const wait = resetsAt - Date.now();
+      if (wait > this.options.maxDelayMs) {
+        console.warn(`Reddit API budget is low (${remaining} requests left) and resets in ${Math.ceil(wait / 1000)}s. Rejecting the request.`);
+        throw new RateLimitedError(wait / 1000);
+      }
+      if (wait > 0) {
+        console.warn(`Reddit API budget is low (${remaining} requests left). Waiting ${Math.ceil(wait / 1000)}s for the window to reset.`);
+        await sleep(wait);
+      }
+      // The new window's budget is unknown until Reddit reports it, so hold the queue until this request responds
+      this.budget = { ...this.budget, remaining: null, resetsAt: null };
+      return true;
+    });
+
+    this.queue = turn.then(holdQueue => (holdQueue ? responded : undefined)).catch(() => undefined);
+    return turn.then(() => release);
+  }
+
+  /**
+   * Computes how long to wait before retrying a failed response.
+   * Honors Retry-After when Reddit sends it; otherwise uses exponential backoff with full jitter.
+   */
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfterSeconds = parseNumericHeader(response.headers, 'Retry-After');
+    if (retryAfterSeconds !== null && retryAfterSeconds >= 0) {
+      return Math.min(retryAfterSeconds * 1000, this.options.maxDelayMs);
+    }
+    const ceiling = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    return Math.round(Math.random() * ceiling);
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { formatRedditTarget, parseRedditTarget } from './reddit-target';
+
+describe('parseRedditTarget', () => {
+  it.each([
+    ['pics', ['pics']],
+    ['r/pics', ['pics']],
+    ['/r/pics/', ['pics']],
+    ['https://www.reddit.com/r/pics/', ['pics']],
+    ['old.reddit.com/r/pics', ['pics']],
+    ['http://np.reddit.com/r/EarthPorn/new', ['EarthPorn']],
+    ['https://m.reddit.com/r/cats+dogs+birds/', ['cats', 'dogs', 'birds']],
+  ])('reads subreddits from %s', (input, subreddits) => {
+    expect(parseRedditTarget(input)).toMatchObject({ type: 'subreddit', subreddits });
+  });
+
+  it('reads the sort and time window from a listing URL', () => {
+    expect(parseRedditTarget('https://www.reddit.com/r/pics/top/?t=week')).toEqual({
+      type: 'subreddit',
+      subreddits: ['pics'],
+      sort: 'top',
+      timeWindow: 'week',
+    });
+  });
+
+  it('reads user profiles and custom feeds', () => {
+    expect(parseRedditTarget('u/some_user')).toEqual({ type: 'user', username: 'some_user' });
+    expect(parseRedditTarget('https://www.reddit.com/user/some_user/submitted/?sort=top&t=all'))
+      .toEqual({ type: 'user', username: 'some_user', sort: 'top', timeWindow: 'all' });
+    expect(parseRedditTarget('https://www.reddit.com/user/owner/m/favorites/new'))
+      .toEqual({ type: 'multireddit', owner: 'owner', name: 'favorites', sort: 'new' });
+  });
+
+  it('reads post links', () => {
+    expect(parseRedditTarget('https://redd.it/abc123')).toEqual({ type: 'post', postId: 'abc123' });
+    expect(parseRedditTarget('https://www.reddit.com/comments/ABC123/')).toEqual({ type: 'post', postId: 'abc123' });
+    expect(parseRedditTarget('https://www.reddit.com/gallery/abc123')).toEqual({ type: 'post', postId: 'abc123' });
+    expect(parseRedditTarget('https://www.reddit.com/r/pics/comments/abc123/a_title/')).toEqual({ type: 'post', postId: 'abc123' });
+    expect(parseRedditTarget('r/pics/comments/ABC123')).toEqual({ type: 'post', postId: 'abc123' });
+  });
+
+  it.each([
+    '',
+    '   ',
+    'https://example.com/r/pics',
+    'ftp://reddit.com/r/pics',
+    'r/a',
+    'r/no-dashes',
+    'https://www.reddit.com/',
+    'https://redd.it/',
+    'https://www.reddit.com/r/pics/s/aB3dE5fG7h',
+    'https://www.reddit.com/r/pics/comments/',
+    'https://www.reddit.com/r/cats+dogs/comments/abc123/',
+  ])('rejects %j', input => {
+    expect(parseRedditTarget(input)).toBeNull();
+  });
+});
+
+describe('formatRedditTarget', () => {
+  it.each([
+    ['r/cats+dogs', 'r/cats+dogs'],
+    ['u/name', 'u/name'],
+    ['u/owner/m/multi', 'u/owner/m/multi'],
+    ['redd.it/abc123', 'post abc123'],
+  ])('formats %s as %s', (input, label) => {
+    const target = parseRedditTarget(input);
+    expect(target && formatRedditTarget(target)).toBe(label);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Normalizes the many ways people paste Reddit locations (URLs from any Reddit host,
+ * short links, share links, bare names) into a structured target descriptor.
+ */
+
+import {
+  REDDIT_SORTS,
+  REDDIT_TIME_WINDOWS,
+  type RedditSort,
+  type RedditTimeWindow,
+} from './reddit-listing-options';
+
+/**
+ * Listing options found in a pasted URL (e.g., /r/pics/top/?t=week).
+ */
+export interface TargetListingOptions {
+  sort?: RedditSort;
+  timeWindow?: RedditTimeWindow;
+}
+
+/**
+ * One or more subreddits; several are combined with Reddit's `a+b+c` syntax.
+ */
+export interface SubredditTarget extends TargetListingOptions {
+  type: 'subreddit';
+  subreddits: string[];
+}
+
+/**
+ * A user's profile (their submitted posts).
+ */
+export interface UserTarget extends TargetListingOptions {
+  type: 'user';
+  username: string;
+}
+
+/**
+ * A user's custom feed (multireddit).
+ */
+export interface MultiredditTarget extends TargetListingOptions {
+  type: 'multireddit';
+  owner: string;
+  name: string;
+}
+
+/**
+ * A single post, from a redd.it short link or a /comments/ or /gallery/ link without a subreddit.
+ */
+export interface PostTarget {
+  type: 'post';
+  postId: string; // Base-36 id without the t3_ prefix
+}
+
+/**
+ * A Reddit location the scraper can read posts from.
+ */
+export type RedditTarget = SubredditTarget | UserTarget | MultiredditTarget | PostTarget;
+
+const SUBREDDIT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_]{1,20}$/;
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,20}$/;
+const MULTIREDDIT_NAME_PATTERN = /^[A-Za-z0-9_]{1,50}$/;
+const POST_ID_PATTERN = /^[a-z0-9]{1,12}$/i;
+
+/**
+ * Hosts serving the regular Reddit site (old., new., np., m., www. and the bare domain).
+ */
+function isRedditHost(hostname: string): boolean {
+  return hostname === 'reddit.com' || hostname.endsWith('.reddit.com');
+}
+
+function isSort(value: string | undefined): value is RedditSort {
+  return !!value && (REDDIT_SORTS as readonly string[]).includes(value);
+}
+
+function isTimeWindow(value: string | null | undefined): value is RedditTimeWindow {
+  return !!value && (REDDIT_TIME_WINDOWS as readonly string[]).includes(value);
+}
+
+/**
+ * Reads the sort from a path segment (or the `sort` query parameter) and the time window from `t`.
+ */
+function readListingOptions(segment: string | undefined, searchParams: URLSearchParams): TargetListingOptions {
+  const options: TargetListingOptions = {};
+  const sort = segment?.toLowerCase() ?? searchParams.get('sort')?.toLowerCase();
+  if (isSort(sort)) {
+    options.sort = sort;
+  }
+  const timeWindow = searchParams.get('t')?.toLowerCase();
+  if (isTimeWindow(timeWindow)) {
+    options.timeWindow = timeWindow;
+  }
+  return options;
+}
+
+/**
+ * Parses the path of a reddit.com URL (already split into segments).
+ */
+function parseRedditPath(parts: string[], searchParams: URLSearchParams): RedditTarget | null {
+  const [first, second, third, fourth, fifth] = parts;
+  const prefix = first?.toLowerCase();
+
+  if (prefix === 'r' && second) {
+    const subreddits = second.split('+').filter(name => name !== '');
+    if (subreddits.length === 0 || !subreddits.every(name => SUBREDDIT_NAME_PATTERN.test(name))) {
+      return null;
+    }
+    const segment = third?.toLowerCase();
+    if (segment === 'comments') {
+      // /r/name/comments/<id>/<slug> is a post in the subreddit
+      return subreddits.length === 1 && fourth && POST_ID_PATTERN.test(fourth) ? { type: 'post', postId: fourth.toLowerCase() } : null;
+    }
+    if (segment === 's') {
+      // /r/name/s/<id> (mobile share) only redirects to a post, so it names neither the post nor a listing
+      return null;
+    }
+    return { type: 'subreddit', subreddits, ...readListingOptions(third, searchParams) };
+  }
+
+  if ((prefix === 'user' || prefix === 'u') && second && USERNAME_PATTERN.test(second)) {
+    if (third?.toLowerCase() === 'm' && fourth) {
+      return MULTIREDDIT_NAME_PATTERN.test(fourth)
+        ? { type: 'multireddit', owner: second, name: fourth, ...readListingOptions(fifth, searchParams) }
+        : null;
+    }
+    // /user/name, /user/name/submitted and /u/name/posts all mean the user's submissions
+    return { type: 'user', username: second, ...readListingOptions(undefined, searchParams) };
+  }
+
+  if ((prefix === 'comments' || prefix === 'gallery') && second && POST_ID_PATTERN.test(second)) {
+    return { type: 'post', postId: second.toLowerCase() };
+  }
+
+  return null;
+}
+
+/**
+ * Parses user input into a Reddit target. Accepts:
+ * - URLs on reddit.com and its subdomains (www., old., new., np., m.), with or without the scheme
+ * - /r/name, /r/a+b+c, /r/name/top/?t=week (sort and time window are extracted)
+ * - /user/name (or /u/name) profiles and /user/owner/m/multi custom feeds
+ * - redd.it/<id> short links and /r/name/comments/<id>, /comments/<id> or /gallery/<id> post links
+ * Mobile share links (/r/name/s/<id>) are rejected: the post they point to is only known by following the redirect.
+ * - bare "r/pics", "/r/pics", "u/name" or just "pics"
+ * @param input The text the user entered.
+ * @returns The target, or null if the input is not a recognizable Reddit location.
+ */
+export function parseRedditTarget(input: string): RedditTarget | null {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  // Bare subreddit name, e.g. "pics"
+  if (SUBREDDIT_NAME_PATTERN.test(trimmed)) {
+    return { type: 'subreddit', subreddits: [trimmed] };
+  }
+
+  // Bare paths, e.g. "r/pics" or "/u/someone"
+  if (/^\/?(r|u|user)\//i.test(trimmed)) {
+    const [path, query = ''] = trimmed.split('?');
+    return parseRedditPath(path.split('/').filter(part => part !== ''), new URLSearchParams(query));
+  }
+
+  let url: URL;
+  try {
+    // Allow URLs pasted without a scheme, e.g. "old.reddit.com/r/pics"
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch (e) {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const parts = url.pathname.split('/').filter(part => part !== '');
+
+  if (hostname === 'redd.it' || hostname === 'www.redd.it') {
+    return parts.length === 1 && POST_ID_PATTERN.test(parts[0]) ? { type: 'post', postId: parts[0].toLowerCase() } : null;
+  }
+  if (!isRedditHost(hostname)) {
+    return null;
+  }
+  return parseRedditPath(parts, url.searchParams);
+}
+
+/**
+ * Returns the sort and time window found in the target's URL, if any. Post targets have none.
+ */
+export function getTargetListingOptions(target: RedditTarget): TargetListingOptions {
+  return target.type === 'post' ? {} : { sort: target.sort, timeWindow: target.timeWindow };
+}
+
+/**
+ * Formats a target for display, e.g. "r/pics", "r/a+b", "u/name", "u/owner/m/multi" or "post abc123".
+ */
+export function formatRedditTarget(target: RedditTarget): string {
+  switch (target.type) {
+    case 'subreddit':
+      return `r/${target.subreddits.join('+')}`;
+    case 'user':
+      return `u/${target.username}`;
+    case 'multireddit':
+      return `u/${target.owner}/m/${target.name}`;
+    case 'post':
+      return `post ${target.postId}`;
+  }
+}
@@ -0,0 +1,150 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { startMockRedditServer } from '../mocks/reddit/server';
+import { RedditClient } from './reddit-client';
+import { RedditRateLimiter } from './reddit-rate-limiter';
+import { parseRedditTarget, type RedditTarget } from './reddit-target';
+import { ConfigError } from './scraper-errors';
+import type { ScrapeOptions } from './subreddit-scraper';
+import {
+  getScrapeCacheConfig,
+  getScrapeCacheKey,
+  MemoryCacheBackend,
+  ScrapeCache,
+  type ScrapeCacheEntry,
+} from './scrape-cache';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = await startMockRedditServer(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const target = parseRedditTarget('r/mockpics') as RedditTarget;
+
+// Scrape options with a client that counts the listing requests it sends
+function createCountingOptions() {
+  const counter = { listingRequests: 0 };
+  const client = new RedditClient({
+    config: { clientId: 'mock-client', clientSecret: 'mock-secret', authBaseUrl: baseUrl, apiBaseUrl: baseUrl, maxRetries: 0 },
+    rateLimiter: new RedditRateLimiter({ maxRetries: 0 }),
+    fetch: (input, init) => {
+      if (!input.endsWith('/api/v1/access_token')) counter.listingRequests++;
+      return fetch(input, init);
+    },
+  });
+  const options: ScrapeOptions = { client, hostResolvers: [] };
+  return { options, counter };
+}
+
+function createCache(ttlSeconds: number, staleSeconds: number = 0, backend = new MemoryCacheBackend()) {
+  return new ScrapeCache({ backend, ttlSeconds, staleSeconds });
+}
+
+describe('getScrapeCacheConfig', () => {
+  it('reads defaults and treats empty variables as unset', () => {
+    expect(getScrapeCacheConfig({ SCRAPE_CACHE_TTL_SECONDS: '', SCRAPE_CACHE_DIR: '' })).toEqual({
+      ttlSeconds: 300,
+      staleSeconds: 1800,
+      maxEntries: 500,
+      directory: null,
+    });
+  });
+
+  it('reports invalid values as a configuration error', () => {
+    expect(() => getScrapeCacheConfig({ SCRAPE_CACHE_TTL_SECONDS: '-1' })).toThrow(ConfigError);
+    expect(() => getScrapeCacheConfig({ SCRAPE_CACHE_MAX_ENTRIES: 'many' })).toThrow(expect.objectContaining({ code: 'INVALID_CONFIG', status: 500 }));
+  });
+});
+
+describe('getScrapeCacheKey', () => {
+  it('shares keys between equivalent requests', () => {
+    expect(getScrapeCacheKey(target, 25, { sort: 'hot' }, null)).toBe(getScrapeCacheKey(parseRedditTarget('R/MockPics')!, 25, {}, null));
+    expect(getScrapeCacheKey(target, 25, {}, null)).not.toBe(getScrapeCacheKey(target, 25, {}, 't3_mk010'));
+    expect(getScrapeCacheKey(target, 25, {}, null)).not.toBe(getScrapeCacheKey(target, 25, { sort: 'new' }, null));
+  });
+
+  it('keys a pasted URL on its own sort and time window', () => {
+    const topOfWeek = parseRedditTarget('reddit.com/r/mockpics/top/?t=week')!;
+    expect(getScrapeCacheKey(topOfWeek, 25, { sort: 'new', timeWindow: 'day' }, null)).toBe(getScrapeCacheKey(topOfWeek, 25, {}, null));
+    expect(getScrapeCacheKey(topOfWeek, 25, {}, null)).not.toBe(getScrapeCacheKey(target, 25, { sort: 'new' }, null));
+  });
+});
+
+describe('MemoryCacheBackend', () => {
+  it('evicts the least recently used entry', async () => {
+    const backend = new MemoryCacheBackend(2);
+    const entry: ScrapeCacheEntry = { storedAt: 0, result: { posts: [], after: null, pagesFetched: 1, filteredOut: 0 } };
+    await backend.set('a', entry);
+    await backend.set('b', entry);
+    await backend.get('a');
+    await backend.set('c', entry);
+
+    expect(await backend.get('a')).toEqual(entry);
+    expect(await backend.get('b')).toBeNull();
+  });
+});
+
+describe('ScrapeCache', () => {
+  it('serves a repeated scrape from the cache', async () => {
+    const { options, counter } = createCountingOptions();
+    const cache = createCache(60);
+
+    const first = await cache.scrape(target, 5, options);
+    const second = await cache.scrape(target, 5, options);
+
+    expect(first.cache.cached).toBe(false);
+    expect(second.cache).toMatchObject({ cached: true, stale: false });
+    expect(second.result).toEqual(first.result);
+    expect(counter.listingRequests).toBe(1);
+  });
+
+  it('shares one scrape between concurrent requests', async () => {
+    const { options, counter } = createCountingOptions();
+    const cache = createCache(60);
+
+    await Promise.all([cache.scrape(target, 5, options), cache.scrape(target, 5, options)]);
+    expect(counter.listingRequests).toBe(1);
+  });
+
+  it('serves a stale entry while refreshing it in the background', async () => {
+    const { options, counter } = createCountingOptions();
+    const backend = new MemoryCacheBackend();
+    const cache = createCache(1, 60, backend);
+    await cache.scrape(target, 5, options);
+
+    // Age the entry past its TTL
+    const key = getScrapeCacheKey(target, 5, options, null);
+    const entry = (await backend.get(key))!;
+    await backend.set(key, { ...entry, storedAt: entry.storedAt - 2_000 });
+
+    const stale = await cache.scrape(target, 5, options);
+    expect(stale.cache).toMatchObject({ cached: true, stale: true });
+    await vi.waitFor(async () => expect((await backend.get(key))!.storedAt).toBeGreaterThan(entry.storedAt - 2_000));
+    expect(counter.listingRequests).toBe(2);
+  });
+
+  it('always scrapes live with a TTL of 0', async () => {
+    const { options, counter } = createCountingOptions();
+    const cache = createCache(0);
+
+    await cache.scrape(target, 5, options);
+    expect((await cache.scrape(target, 5, options)).cache.cached).toBe(false);
+    expect(counter.listingRequests).toBe(2);
+  });
+
+  it('does not cache failed scrapes', async () => {
+    const { options, counter } = createCountingOptions();
+    const cache = createCache(60);
+    const notFound = parseRedditTarget('r/notfound') as RedditTarget;
+
+    await expect(cache.scrape(notFound, 5, options)).rejects.toMatchObject({ code: 'SUBREDDIT_NOT_FOUND' });
+    await expect(cache.scrape(notFound, 5, options)).rejects.toMatchObject({ code: 'SUBREDDIT_NOT_FOUND' });
+    expect(counter.listingRequests).toBe(2);
+  });
+});
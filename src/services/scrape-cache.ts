@@ -0,0 +1,352 @@
+/**
+ * @fileoverview Cache in front of `scrapeTrendyImages`, so repeated scrapes of the same listing within a few
+ * minutes don't spend Reddit API requests again.
+ *
+ * Entries are keyed by everything that shapes a result: target, limit, sort, time window, search, filters and
+ * cursor. A fresh entry (younger than the TTL) is returned as is. A stale entry (past the TTL, but within the
+ * stale window after it) is returned immediately while a background scrape refreshes it. Older entries are
+ * scraped again before responding. Failed scrapes are never cached.
+ *
+ * Configured from environment variables:
+ * - SCRAPE_CACHE_TTL_SECONDS: how long entries are fresh (default 300; 0 disables the cache).
+ * - SCRAPE_CACHE_STALE_SECONDS: how long after that stale entries may still be served (default 1800).
+ * - SCRAPE_CACHE_MAX_ENTRIES: entries kept in memory (default 500).
+ * - SCRAPE_CACHE_DIR: if set, entries are stored as files in this directory instead of in memory,
+ *   so they survive restarts and are shared by every server process using the directory.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { ConfigError } from './scraper-errors';
+import { formatRedditTarget, getTargetListingOptions, parseRedditTarget, type RedditTarget } from './reddit-target';
+import { scrapeTrendyImages, type ScrapeOptions, type ScrapeResult } from './subreddit-scraper';
+
+// --- Backends ---
+
+/**
+ * A cached scrape result and when it was stored.
+ */
+export interface ScrapeCacheEntry {
+  /**
+   * When the result was stored, in milliseconds since the Unix epoch.
+   */
+  storedAt: number;
+  result: ScrapeResult;
+}
+
+/**
+ * Storage for cache entries. Backends don't expire entries themselves; the cache decides what is too old.
+ */
+export interface ScrapeCacheBackend {
+  get(key: string): Promise<ScrapeCacheEntry | null>;
+  set(key: string, entry: ScrapeCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Default number of entries kept by the in-memory backend.
+ */
+export const DEFAULT_MAX_CACHE_ENTRIES = 500;
+
+/**
+ * Keeps entries in process memory, evicting the least recently used once `maxEntries` is exceeded.
+ */
+export class MemoryCacheBackend implements ScrapeCacheBackend {
+  // Map iteration follows insertion order, so re-inserting on use keeps it least-recently-used first
+  private readonly entries = new Map<string, ScrapeCacheEntry>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_CACHE_ENTRIES) {}
+
+  async get(key: string): Promise<ScrapeCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry); // Callers may modify the posts they get back
+  }
+
+  async set(key: string, entry: ScrapeCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Stores each entry as a JSON file named after the hash of its key.
+ * Expired files are removed when they are next read; nothing sweeps the directory otherwise.
+ */
+export class FileCacheBackend implements ScrapeCacheBackend {
+  constructor(private readonly directory: string) {}
+
+  private getFilePath(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<ScrapeCacheEntry | null> {
+    try {
+      const stored = JSON.parse(await readFile(this.getFilePath(key), 'utf8')) as ScrapeCacheEntry & { key: string };
+      // Guards against hash collisions and files left by an older format
+      return stored.key === key && typeof stored.storedAt === 'number' && stored.result
+        ? { storedAt: stored.storedAt, result: stored.result }
+        : null;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Could not read scrape cache entry:`, e instanceof Error ? e.message : e);
+      }
+      return null;
+    }
+  }
+
+  async set(key: string, entry: ScrapeCacheEntry): Promise<void> {
+    const filePath = this.getFilePath(key);
+    // Write to a temporary file first, so concurrent readers never see a partial entry
+    const temporaryPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(temporaryPath, JSON.stringify({ key, ...entry }), 'utf8');
+    await rename(temporaryPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.getFilePath(key), { force: true });
+  }
+}
+// --- End Backends ---
+
+// --- Configuration ---
+
+/**
+ * Configuration for a ScrapeCache.
+ */
+export interface ScrapeCacheConfig {
+  /**
+   * Seconds an entry is served without refreshing it. 0 disables the cache.
+   */
+  ttlSeconds: number;
+
+  /**
+   * Seconds after the TTL during which an entry is still served, while being refreshed in the background.
+   */
+  staleSeconds: number;
+
+  /**
+   * Entries kept by the in-memory backend.
+   */
+  maxEntries: number;
+
+  /**
+   * Directory for the file backend, or null to keep entries in memory.
+   */
+  directory: string | null;
+}
+
+const envSchema = z.object({
+  SCRAPE_CACHE_TTL_SECONDS: z.coerce.number().int().min(0).default(300),
+  SCRAPE_CACHE_STALE_SECONDS: z.coerce.number().int().min(0).default(1800),
+  SCRAPE_CACHE_MAX_ENTRIES: z.coerce.number().int().min(1).default(DEFAULT_MAX_CACHE_ENTRIES),
+  SCRAPE_CACHE_DIR: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Reads and validates the cache configuration from environment variables.
+ * Empty variables are treated as unset.
+ * @param env The environment to read (defaults to process.env).
+ * @returns The validated configuration.
+ * @throws ConfigError if a variable is set to an invalid value.
+ */
+export function getScrapeCacheConfig(env: Record<string, string | undefined> = process.env): ScrapeCacheConfig {
+  const definedEnv = Object.fromEntries(
+    Object.entries(env).filter(([key, value]) => key.startsWith('SCRAPE_CACHE_') && value !== undefined && value !== '')
+  );
+  const result = envSchema.safeParse(definedEnv);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new ConfigError(`Invalid scrape cache configuration: ${issue?.path.join('.')} ${issue?.message}.`);
+  }
+
+  const config = result.data;
+  return {
+    ttlSeconds: config.SCRAPE_CACHE_TTL_SECONDS,
+    staleSeconds: config.SCRAPE_CACHE_STALE_SECONDS,
+    maxEntries: config.SCRAPE_CACHE_MAX_ENTRIES,
+    directory: config.SCRAPE_CACHE_DIR ?? null,
+  };
+}
+// --- End Configuration ---
+
+/**
+ * Whether a result came from the cache, and how old it was.
+ */
+export interface CacheStatus {
+  cached: boolean;
+
+  /**
+   * Seconds since the result was scraped, or null if it was scraped for this request.
+   */
+  ageSeconds: number | null;
+
+  /**
+   * True if the result was past its TTL and is being refreshed in the background.
+   */
+  stale: boolean;
+}
+
+/**
+ * A scrape result with its cache status.
+ */
+export interface CachedScrapeResult {
+  result: ScrapeResult;
+  cache: CacheStatus;
+}
+
+const LIVE_STATUS: CacheStatus = { cached: false, ageSeconds: null, stale: false };
+
+/**
+ * Returns the cache key for a scrape: every parameter that changes its result, with defaults filled in,
+ * so equivalent requests (e.g., an explicit 'hot' sort and none) share an entry.
+ * The client and host resolvers are not part of the key.
+ */
+export function getScrapeCacheKey(target: RedditTarget, limit: number, options: ScrapeOptions, after: string | null): string {
+  const targetOptions = getTargetListingOptions(target);
+  return JSON.stringify({
+    target: formatRedditTarget(target).toLowerCase(),
+    limit,
+    sort: targetOptions.sort ?? options.sort ?? 'hot',
+    timeWindow: targetOptions.timeWindow ?? options.timeWindow ?? null,
+    search: options.search ?? null,
+    filters: options.filters ?? null,
+    after,
+  });
+}
+
+/**
+ * Serves scrape results from a backend, refreshing them as they age. See the file overview for the policy.
+ */
+export class ScrapeCache {
+  private readonly backend: ScrapeCacheBackend;
+  private readonly ttlMs: number;
+  private readonly staleMs: number;
+
+  // Scrapes in progress per key, so concurrent requests and background refreshes share one API round
+  private readonly pending = new Map<string, Promise<ScrapeResult>>();
+
+  constructor(options: { backend: ScrapeCacheBackend; ttlSeconds: number; staleSeconds: number }) {
+    this.backend = options.backend;
+    this.ttlMs = options.ttlSeconds * 1000;
+    this.staleMs = options.staleSeconds * 1000;
+  }
+
+  /**
+   * Returns the cached result for a scrape if it is fresh enough, scraping it otherwise.
+   * Takes the same arguments as `scrapeTrendyImages`, and throws the same errors when a scrape fails.
+   */
+  async scrape(target: RedditTarget, limit: number, options: ScrapeOptions = {}, after: string | null = null): Promise<CachedScrapeResult> {
+    if (this.ttlMs === 0) {
+      return { result: await scrapeTrendyImages(target, limit, options, after), cache: LIVE_STATUS };
+    }
+
+    const key = getScrapeCacheKey(target, limit, options, after);
+    const entry = await this.backend.get(key);
+    const ageMs = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && ageMs < this.ttlMs + this.staleMs) {
+      const stale = ageMs >= this.ttlMs;
+      if (stale) {
+        // Serve the stale entry now; the next request gets the refreshed one
+        this.scrapeAndStore(key, target, limit, options, after).catch(error => {
+          console.warn(`Background refresh of ${formatRedditTarget(target)} failed:`, error instanceof Error ? error.message : error);
+        });
+      }
+      console.log(`Serving ${stale ? 'stale' : 'fresh'} cached result for ${formatRedditTarget(target)} (${Math.round(ageMs / 1000)}s old).`);
+      return { result: entry.result, cache: { cached: true, ageSeconds: Math.round(ageMs / 1000), stale } };
+    }
+
+    if (entry) {
+      await this.backend.delete(key);
+    }
+    return { result: await this.scrapeAndStore(key, target, limit, options, after), cache: LIVE_STATUS };
+  }
+
+  private scrapeAndStore(key: string, target: RedditTarget, limit: number, options: ScrapeOptions, after: string | null): Promise<ScrapeResult> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const scrape = (async () => {
+      const result = await scrapeTrendyImages(target, limit, options, after);
+      // A cache that can't be written must not fail the scrape
+      await this.backend.set(key, { storedAt: Date.now(), result }).catch(error => {
+        console.warn(`Could not store scrape cache entry:`, error instanceof Error ? error.message : error);
+      });
+      return result;
+    })().finally(() => this.pending.delete(key));
+
+    this.pending.set(key, scrape);
+    return scrape;
+  }
+}
+
+// --- Shared Default Cache ---
+let defaultCache: ScrapeCache | null = null;
+
+/**
+ * Returns the shared cache configured from environment variables, creating it on first use.
+ * @throws ConfigError if the environment configuration is invalid.
+ */
+export function getDefaultScrapeCache(): ScrapeCache {
+  if (!defaultCache) {
+    const config = getScrapeCacheConfig();
+    defaultCache = new ScrapeCache({
+      backend: config.directory ? new FileCacheBackend(config.directory) : new MemoryCacheBackend(config.maxEntries),
+      ttlSeconds: config.ttlSeconds,
+      staleSeconds: config.staleSeconds,
+    });
+  }
+  return defaultCache;
+}
+// --- End Default Cache ---
+
+/**
+ * Options for a cached scrape.
+ */
+export interface CachedScrapeOptions extends ScrapeOptions {
+  /**
+   * The cache to use. Defaults to the shared cache; pass null to always scrape live.
+   */
+  cache?: ScrapeCache | null;
+}
+
+/**
+ * Runs `scrapeTrendyImages` through a cache. Takes the same arguments (a target, or user input to parse).
+ * @returns The result and whether it came from the cache.
+ * @throws A ScraperError subclass describing the failure (see scraper-errors.ts).
+ */
+export async function scrapeTrendyImagesCached(
+  target: string | RedditTarget,
+  limit: number = 25,
+  options: CachedScrapeOptions = {},
+  after: string | null = null,
+): Promise<CachedScrapeResult> {
+  const { cache = getDefaultScrapeCache(), ...scrapeOptions } = options;
+  const parsedTarget = typeof target === 'string' ? parseRedditTarget(target) : target;
+  if (!cache || !parsedTarget) {
+    // Unparseable input is left to scrapeTrendyImages, which reports it
+    return { result: await scrapeTrendyImages(target, limit, scrapeOptions, after), cache: LIVE_STATUS };
+  }
+  return cache.scrape(parsedTarget, limit, scrapeOptions, after);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { RedditPostData } from './reddit-api-types';
+import { DEFAULT_SCRAPE_FILTERS, matchesScrapeFilters, type ScrapeFilters } from './scrape-filters';
+
+const now = Date.UTC(2026, 0, 15);
+
+function createPostData(overrides: Partial<RedditPostData> = {}): RedditPostData {
+  return {
+    title: 'Sunset over the Harbor',
+    name: 't3_abc',
+    url: 'https://i.redd.it/abc.jpg',
+    author: 'someone',
+    subreddit: 'pics',
+    permalink: '/r/pics/comments/abc/sunset/',
+    created_utc: now / 1000 - 3600, // An hour old
+    score: 100,
+    upvote_ratio: 0.9,
+    num_comments: 10,
+    link_flair_text: 'OC',
+    over_18: false,
+    spoiler: false,
+    stickied: false,
+    is_video: false,
+    ...overrides,
+  };
+}
+
+function matches(filters: Partial<ScrapeFilters>, post: Partial<RedditPostData> = {}): boolean {
+  return matchesScrapeFilters(createPostData(post), { ...DEFAULT_SCRAPE_FILTERS, ...filters }, now);
+}
+
+describe('matchesScrapeFilters', () => {
+  it('keeps every post with the default filters', () => {
+    expect(matches({}, { over_18: true, spoiler: true, stickied: true, score: -5 })).toBe(true);
+  });
+
+  it.each([
+    ['include', false, true],
+    ['include', true, true],
+    ['exclude', false, true],
+    ['exclude', true, false],
+    ['only', false, false],
+    ['only', true, true],
+  ] as const)('with NSFW and spoilers set to %s, keeps a flagged (%s) post: %s', (mode, flagged, kept) => {
+    expect(matches({ nsfw: mode }, { over_18: flagged })).toBe(kept);
+    expect(matches({ spoilers: mode }, { spoiler: flagged })).toBe(kept);
+  });
+
+  it('skips stickied posts when asked to', () => {
+    expect(matches({ skipStickied: true }, { stickied: true })).toBe(false);
+    expect(matches({ skipStickied: true })).toBe(true);
+  });
+
+  it('applies engagement minimums inclusively', () => {
+    expect(matches({ minScore: 100, minComments: 10, minUpvoteRatio: 0.9 })).toBe(true);
+    expect(matches({ minScore: 101 })).toBe(false);
+    expect(matches({ minComments: 11 })).toBe(false);
+    expect(matches({ minUpvoteRatio: 0.95 })).toBe(false);
+  });
+
+  it('compares flairs case-insensitively', () => {
+    expect(matches({ flairAllow: ['oc', 'Art'] })).toBe(true);
+    expect(matches({ flairAllow: ['Art'] })).toBe(false);
+    expect(matches({ flairAllow: ['Art'] }, { link_flair_text: null })).toBe(false); // Posts without flair don't match an allow list
+    expect(matches({ flairDeny: ['OC'] }, { link_flair_text: ' oc ' })).toBe(false);
+    expect(matches({ flairDeny: ['Meta'] }, { link_flair_text: null })).toBe(true);
+  });
+
+  it('drops posts older than the maximum age', () => {
+    expect(matches({ maxAgeHours: 1 })).toBe(true);
+    expect(matches({ maxAgeHours: 1 }, { created_utc: now / 1000 - 7200 })).toBe(false);
+  });
+
+  it('matches title keywords case-insensitively', () => {
+    expect(matches({ titleInclude: ['harbor', 'beach'] })).toBe(true);
+    expect(matches({ titleInclude: ['beach'] })).toBe(false);
+    expect(matches({ titleExclude: ['SUNSET'] })).toBe(false);
+    expect(matches({ titleInclude: ['sunset'], titleExclude: ['beach'] })).toBe(true);
+  });
+});
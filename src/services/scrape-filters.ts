@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Content filters applied to posts before their images are extracted.
+ * Filters run on the raw listing data, so a filtered gallery drops all of its images at once.
+ */
+
+import type { RedditPostData } from './reddit-api-types';
+
+/**
+ * How posts carrying a content flag (NSFW, spoiler) are treated:
+ * 'include' keeps them, 'exclude' drops them, 'only' keeps nothing else.
+ */
+export const CONTENT_FILTER_MODES = ['include', 'exclude', 'only'] as const;
+export type ContentFilterMode = typeof CONTENT_FILTER_MODES[number];
+
+/**
+ * Which posts a scrape keeps. Numeric limits set to null and empty lists don't filter anything.
+ */
+export interface ScrapeFilters {
+  nsfw: ContentFilterMode;
+  spoilers: ContentFilterMode;
+
+  /**
+   * Drops posts pinned by the moderators (usually rules and meta threads).
+   */
+  skipStickied: boolean;
+
+  minScore: number | null;
+  minComments: number | null;
+
+  /**
+   * Minimum share of upvotes, from 0 to 1.
+   */
+  minUpvoteRatio: number | null;
+
+  /**
+   * If not empty, only posts with one of these flairs are kept. Compared case-insensitively.
+   */
+  flairAllow: string[];
+
+  /**
+   * Posts with one of these flairs are dropped. Compared case-insensitively.
+   */
+  flairDeny: string[];
+
+  /**
+   * Posts older than this many hours are dropped.
+   */
+  maxAgeHours: number | null;
+
+  /**
+   * If not empty, only posts whose title contains at least one of these keywords are kept. Case-insensitive.
+   */
+  titleInclude: string[];
+
+  /**
+   * Posts whose title contains any of these keywords are dropped. Case-insensitive.
+   */
+  titleExclude: string[];
+}
+
+/**
+ * Filters that keep every post.
+ */
+export const DEFAULT_SCRAPE_FILTERS: ScrapeFilters = {
+  nsfw: 'include',
+  spoilers: 'include',
+  skipStickied: false,
+  minScore: null,
+  minComments: null,
+  minUpvoteRatio: null,
+  flairAllow: [],
+  flairDeny: [],
+  maxAgeHours: null,
+  titleInclude: [],
+  titleExclude: [],
+};
+
+function matchesContentMode(flagged: boolean, mode: ContentFilterMode): boolean {
+  return mode === 'include' || (mode === 'only' ? flagged : !flagged);
+}
+
+/**
+ * Returns true if the post passes every filter.
+ * @param postData The post data from a listing.
+ * @param filters The filters to apply.
+ * @param now The current time in milliseconds, for the age filter.
+ */
+export function matchesScrapeFilters(postData: RedditPostData, filters: ScrapeFilters, now: number = Date.now()): boolean {
+  if (!matchesContentMode(!!postData.over_18, filters.nsfw) || !matchesContentMode(!!postData.spoiler, filters.spoilers)) {
+    return false;
+  }
+  if (filters.skipStickied && postData.stickied) {
+    return false;
+  }
+
+  // --- Engagement ---
+  if (filters.minScore !== null && (postData.score ?? 0) < filters.minScore) {
+    return false;
+  }
+  if (filters.minComments !== null && (postData.num_comments ?? 0) < filters.minComments) {
+    return false;
+  }
+  if (filters.minUpvoteRatio !== null && (postData.upvote_ratio ?? 0) < filters.minUpvoteRatio) {
+    return false;
+  }
+
+  // --- Flair ---
+  const flair = postData.link_flair_text?.trim().toLowerCase() ?? '';
+  if (filters.flairAllow.length > 0 && !filters.flairAllow.some(allowed => allowed.toLowerCase() === flair)) {
+    return false;
+  }
+  if (flair && filters.flairDeny.some(denied => denied.toLowerCase() === flair)) {
+    return false;
+  }
+
+  // --- Age ---
+  if (filters.maxAgeHours !== null && now - postData.created_utc * 1000 > filters.maxAgeHours * 3_600_000) {
+    return false;
+  }
+
+  // --- Title Keywords ---
+  const title = (postData.title ?? '').toLowerCase();
+  if (filters.titleInclude.length > 0 && !filters.titleInclude.some(keyword => title.includes(keyword.toLowerCase()))) {
+    return false;
+  }
+  if (filters.titleExclude.some(keyword => title.includes(keyword.toLowerCase()))) {
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,152 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPost } from '../mocks/trendy-post';
+import { parseScrapeRequest } from './scrape-request';
+import { ConfigError } from './scraper-errors';
+import {
+  createScrapeRun,
+  FileHistoryStore,
+  getRunParameters,
+  getScrapeHistoryConfig,
+  getScrapeRequestKey,
+  listScrapeRuns,
+  MemoryHistoryStore,
+  recordScrapeRun,
+  type ScrapeHistoryStore,
+} from './scrape-history';
+
+const request = parseScrapeRequest({ subredditUrl: 'r/pics, r/aww', limit: '10' });
+
+// Runs are ordered by when they were created, so each test run is created a second after the last
+beforeAll(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+function createRun(mediaIds: string[], error: { code: null; message: string } | null = null) {
+  vi.setSystemTime(Date.now() + 1000);
+  const images = mediaIds.map(mediaId => createPost({ mediaId, postId: `t3_${mediaId}`, title: `Post ${mediaId}` }));
+  return createScrapeRun(request, { subredditUrl: 'r/pics, r/aww', limit: '10' }, error ? null : images, error);
+}
+
+describe('getScrapeHistoryConfig', () => {
+  it('defaults to the file store and treats empty variables as unset', () => {
+    expect(getScrapeHistoryConfig({ SCRAPE_HISTORY_DIR: '' })).toEqual({
+      store: 'file',
+      directory: '.scrape-history',
+      maxEntries: 200,
+      firestore: null,
+    });
+  });
+
+  it('reads the Firestore settings when Firestore is selected', () => {
+    const config = getScrapeHistoryConfig({ SCRAPE_HISTORY_STORE: 'firestore', FIREBASE_API_KEY: 'key', FIREBASE_PROJECT_ID: 'project' });
+    expect(config.firestore).toMatchObject({ apiKey: 'key', projectId: 'project', collection: 'scrapeRuns' });
+  });
+
+  it.each([
+    ['an unknown store', { SCRAPE_HISTORY_STORE: 'redis' }],
+    ['Firestore without its settings', { SCRAPE_HISTORY_STORE: 'firestore' }],
+    ['a collection name with a path separator', { SCRAPE_HISTORY_FIRESTORE_COLLECTION: 'a/b' }],
+  ])('reports %s as a configuration error', (_, env) => {
+    expect(() => getScrapeHistoryConfig(env)).toThrow(ConfigError);
+    expect(() => getScrapeHistoryConfig(env)).toThrow(expect.objectContaining({ code: 'INVALID_CONFIG' }));
+  });
+});
+
+describe('runs', () => {
+  it('identifies a request by what shapes its first page', () => {
+    const reordered = parseScrapeRequest({ subredditUrl: 'r/AWW r/pics', limit: '10', after: 't3_abc' });
+    expect(getScrapeRequestKey(reordered)).toBe(getScrapeRequestKey(request));
+    expect(getScrapeRequestKey(parseScrapeRequest({ subredditUrl: 'r/pics, r/aww', limit: '25' }))).not.toBe(getScrapeRequestKey(request));
+  });
+
+  it('tells apart pasted URLs that sort a subreddit differently', () => {
+    const topOfWeek = getScrapeRequestKey(parseScrapeRequest({ subredditUrl: 'https://www.reddit.com/r/pics/top/?t=week' }));
+    expect(topOfWeek).not.toBe(getScrapeRequestKey(parseScrapeRequest({ subredditUrl: 'https://www.reddit.com/r/pics/new/' })));
+    expect(topOfWeek).toBe(getScrapeRequestKey(parseScrapeRequest({ subredditUrl: 'r/pics', sort: 'top', timeWindow: 'week' })));
+  });
+
+  it('keeps the submitted fields worth re-submitting', () => {
+    expect(getRunParameters({ subredditUrl: 'r/pics', limit: '10', after: 't3_abc', query: '', sort: null })).toEqual({ subredditUrl: 'r/pics', limit: '10' });
+  });
+
+  it('records the results and compares them with the previous run', async () => {
+    const store = new MemoryHistoryStore();
+
+    expect(await recordScrapeRun(createRun(['a', 'b', 'c']), store)).toBeNull(); // The request's first run
+    const diff = await recordScrapeRun(createRun(['b', 'c', 'd']), store);
+
+    expect(diff?.newMediaIds).toEqual(['d']);
+    expect(diff?.gone).toEqual([{ mediaId: 'a', postId: 't3_a', title: 'Post a' }]);
+  });
+
+  it('compares with the latest successful run, skipping failed ones', async () => {
+    const store = new MemoryHistoryStore();
+    await recordScrapeRun(createRun(['a']), store);
+    expect(await recordScrapeRun(createRun([], { code: null, message: 'failed' }), store)).toBeNull();
+
+    expect((await recordScrapeRun(createRun(['a', 'b']), store))?.newMediaIds).toEqual(['b']);
+  });
+
+  it('does not fail when the store does', async () => {
+    const failingStore: ScrapeHistoryStore = {
+      add: async () => { throw new Error('disk full'); },
+      list: async () => { throw new Error('disk full'); },
+      getLatestSuccessful: async () => null,
+    };
+    expect(await recordScrapeRun(createRun(['a']), failingStore)).toBeNull();
+    expect(await listScrapeRuns(10, failingStore)).toEqual([]);
+  });
+});
+
+describe.each([
+  ['MemoryHistoryStore', async () => ({ store: new MemoryHistoryStore(3), cleanup: async (): Promise<unknown> => undefined })],
+  ['FileHistoryStore', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'scrape-history-'));
+    return { store: new FileHistoryStore(directory, 3), cleanup: (): Promise<unknown> => rm(directory, { recursive: true, force: true }) };
+  }],
+])('%s', (_, createStore) => {
+  let store: ScrapeHistoryStore;
+  let cleanup: () => Promise<unknown>;
+
+  beforeEach(async () => {
+    ({ store, cleanup } = await createStore());
+  });
+
+  afterEach(() => cleanup());
+
+  it('lists the newest runs first, without their results', async () => {
+    const runs = [createRun(['a']), createRun(['b', 'c'])];
+    for (const run of runs) {
+      await store.add(run);
+    }
+
+    const summaries = await listScrapeRuns(10, store);
+    expect(summaries.map(summary => [summary.id, summary.resultCount])).toEqual([[runs[1].id, 2], [runs[0].id, 1]]);
+    expect(summaries[0]).not.toHaveProperty('results');
+    expect(summaries[0].parameters).toEqual({ subredditUrl: 'r/pics, r/aww', limit: '10' });
+  });
+
+  it('keeps only the most recent runs', async () => {
+    const runs = ['a', 'b', 'c', 'd'].map(mediaId => createRun([mediaId]));
+    for (const run of runs) {
+      await store.add(run);
+    }
+    expect((await store.list(10)).map(run => run.id)).toEqual(runs.slice(1).reverse().map(run => run.id));
+  });
+
+  it('returns the latest successful run of a request', async () => {
+    const succeeded = createRun(['a']);
+    await store.add(succeeded);
+    await store.add(createRun([], { code: null, message: 'failed' }));
+
+    expect((await store.getLatestSuccessful(succeeded.requestKey))?.id).toBe(succeeded.id);
+    expect(await store.getLatestSuccessful('unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,527 @@
+/**
+ * @fileoverview Persistent history of scrape form submissions, so past scrapes can be re-run and compared.
+ *
+ * Each first-page scrape is recorded as a run: its targets, the submitted fields (to re-run it), when it ran,
+ * the media ids it returned and its error, if any. A run is compared with the latest successful run of the same
+ * request (same targets, limit, sort, search and filters) to find which images are new and which are gone.
+ * "Load more" pages are not recorded; a run covers the first page only.
+ *
+ * Configured from environment variables:
+ * - SCRAPE_HISTORY_STORE: file (default), firestore, memory, or off to record nothing.
+ * - SCRAPE_HISTORY_DIR: directory of the file store (default .scrape-history).
+ * - SCRAPE_HISTORY_MAX_ENTRIES: runs kept by the file and memory stores; older runs are deleted (default 200).
+ * - SCRAPE_HISTORY_FIRESTORE_COLLECTION: collection of the Firestore store (default scrapeRuns).
+ * - FIREBASE_API_KEY, FIREBASE_PROJECT_ID (required for Firestore), FIREBASE_APP_ID, FIREBASE_AUTH_DOMAIN:
+ *   the Firebase web app to store runs in.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import type { FirebaseApp } from 'firebase/app';
+import type { Firestore } from 'firebase/firestore';
+import { ConfigError, type ScraperErrorCode } from './scraper-errors';
+import { formatRedditTarget, getTargetListingOptions } from './reddit-target';
+import type { TrendyPost } from './subreddit-scraper';
+import { SCRAPE_REQUEST_FIELD_NAMES, type ScrapeRequest, type ScrapeRequestFields } from './scrape-request';
+
+// --- Runs ---
+
+/**
+ * An image a run returned, with enough of its post to link to it once it is gone.
+ */
+export interface ScrapeRunResult {
+  mediaId: string;
+  postId: string;
+
+  /**
+   * The post's title, shortened to MAX_STORED_TITLE_LENGTH characters.
+   */
+  title: string;
+}
+
+/**
+ * A recorded scrape.
+ */
+export interface ScrapeRun {
+  /**
+   * Unique id, starting with the zero-padded creation time so ids sort chronologically.
+   */
+  id: string;
+
+  /**
+   * When the scrape ran, in milliseconds since the Unix epoch.
+   */
+  createdAt: number;
+
+  /**
+   * Identifies the request regardless of cursor and field spelling; runs with the same key are compared.
+   */
+  requestKey: string;
+
+  /**
+   * The scraped targets, formatted for display (e.g., r/pics).
+   */
+  targets: string[];
+
+  /**
+   * The submitted form fields (without the cursor), to re-run the scrape with.
+   */
+  parameters: Record<string, string>;
+
+  /**
+   * The images returned, in order.
+   */
+  results: ScrapeRunResult[];
+
+  /**
+   * Why the scrape failed, or null if it succeeded.
+   */
+  error: { code: ScraperErrorCode | null; message: string } | null;
+}
+
+/**
+ * A run without its results, as listed in the history panel.
+ */
+export type ScrapeRunSummary = Omit<ScrapeRun, 'results'> & { resultCount: number };
+
+/**
+ * Titles are shortened before storing so a run of a large batch stays well under Firestore's 1 MiB document limit.
+ */
+const MAX_STORED_TITLE_LENGTH = 100;
+
+/**
+ * Returns the key identifying a request across runs: every parameter that shapes its first page,
+ * with targets in a stable order, so re-running a scrape matches its earlier runs.
+ * Each target carries the sort and time window it is scraped with; a pasted URL's own take precedence, as in `runScrape`.
+ */
+export function getScrapeRequestKey(request: ScrapeRequest): string {
+  const targets = request.targets.map(target => {
+    const targetOptions = getTargetListingOptions(target);
+    return [formatRedditTarget(target).toLowerCase(), targetOptions.sort ?? request.sort, targetOptions.timeWindow ?? request.timeWindow];
+  });
+  return JSON.stringify({
+    targets: targets.sort((a, b) => a.join(' ').localeCompare(b.join(' '))),
+    limit: request.limit,
+    search: request.search ?? null,
+    filters: request.filters,
+    nearDuplicates: request.nearDuplicates,
+  });
+}
+
+/**
+ * Keeps the submitted fields worth re-submitting: set, string-valued, and not the "Load more" cursor.
+ */
+export function getRunParameters(fields: ScrapeRequestFields): Record<string, string> {
+  return Object.fromEntries(
+    SCRAPE_REQUEST_FIELD_NAMES
+      .filter(name => name !== 'after')
+      .map(name => [name, fields[name]] as const)
+      .filter((entry): entry is readonly [typeof entry[0], string] => typeof entry[1] === 'string' && entry[1] !== '')
+  );
+}
+
+/**
+ * Builds the run for a scrape.
+ * @param request The validated request.
+ * @param parameters The submitted fields (see getRunParameters).
+ * @param images The images returned, or null if the scrape failed.
+ * @param error The failure, or null.
+ */
+export function createScrapeRun(
+  request: ScrapeRequest,
+  parameters: Record<string, string>,
+  images: TrendyPost[] | null,
+  error: ScrapeRun['error'],
+): ScrapeRun {
+  const createdAt = Date.now();
+  return {
+    id: `${String(createdAt).padStart(13, '0')}-${randomBytes(4).toString('hex')}`,
+    createdAt,
+    requestKey: getScrapeRequestKey(request),
+    targets: request.targets.map(formatRedditTarget),
+    parameters,
+    results: (images ?? []).map(post => ({ mediaId: post.mediaId, postId: post.postId, title: post.title.slice(0, MAX_STORED_TITLE_LENGTH) })),
+    error,
+  };
+}
+
+/**
+ * Returns a run without its results.
+ */
+export function summarizeScrapeRun({ results, ...run }: ScrapeRun): ScrapeRunSummary {
+  return { ...run, resultCount: results.length };
+}
+
+/**
+ * What changed between two runs of the same request.
+ */
+export interface ScrapeRunDiff {
+  previousRunId: string;
+
+  /**
+   * When the previous run happened, in milliseconds since the Unix epoch.
+   */
+  previousRunAt: number;
+
+  /**
+   * Media ids returned now but not by the previous run.
+   */
+  newMediaIds: string[];
+
+  /**
+   * Images the previous run returned that are no longer returned.
+   */
+  gone: ScrapeRunResult[];
+}
+
+/**
+ * Compares a run with an earlier run of the same request.
+ */
+export function diffScrapeRuns(previous: ScrapeRun, current: ScrapeRun): ScrapeRunDiff {
+  const previousIds = new Set(previous.results.map(result => result.mediaId));
+  const currentIds = new Set(current.results.map(result => result.mediaId));
+  return {
+    previousRunId: previous.id,
+    previousRunAt: previous.createdAt,
+    newMediaIds: [...currentIds].filter(mediaId => !previousIds.has(mediaId)),
+    gone: previous.results.filter(result => !currentIds.has(result.mediaId)),
+  };
+}
+// --- End Runs ---
+
+// --- Stores ---
+
+/**
+ * Storage for runs.
+ */
+export interface ScrapeHistoryStore {
+  add(run: ScrapeRun): Promise<void>;
+
+  /**
+   * Returns the most recent runs, newest first.
+   */
+  list(limit: number): Promise<ScrapeRun[]>;
+
+  /**
+   * Returns the latest run of a request that succeeded, the one new runs are compared with.
+   */
+  getLatestSuccessful(requestKey: string): Promise<ScrapeRun | null>;
+}
+
+/**
+ * Default number of runs kept by the file and memory stores.
+ */
+export const DEFAULT_MAX_HISTORY_ENTRIES = 200;
+
+/**
+ * Returns the hash a request key is stored under, keeping arbitrary request text out of file names and document ids.
+ */
+function hashRequestKey(requestKey: string): string {
+  return createHash('sha256').update(requestKey).digest('hex');
+}
+
+/**
+ * Keeps runs in process memory, for development and tests. History is lost on restart.
+ */
+export class MemoryHistoryStore implements ScrapeHistoryStore {
+  private readonly runs: ScrapeRun[] = []; // Oldest first
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_HISTORY_ENTRIES) {}
+
+  async add(run: ScrapeRun): Promise<void> {
+    this.runs.push(structuredClone(run));
+    this.runs.splice(0, Math.max(0, this.runs.length - this.maxEntries));
+  }
+
+  async list(limit: number): Promise<ScrapeRun[]> {
+    return structuredClone(this.runs.slice(-limit).reverse());
+  }
+
+  async getLatestSuccessful(requestKey: string): Promise<ScrapeRun | null> {
+    const run = this.runs.findLast(candidate => candidate.requestKey === requestKey && !candidate.error);
+    return run ? structuredClone(run) : null;
+  }
+}
+
+/**
+ * Stores each run as a JSON file in `runs/`, named by its id, and the latest successful run of each request in
+ * `latest/`, named by the hash of its key. The oldest runs are deleted once there are more than `maxEntries`.
+ */
+export class FileHistoryStore implements ScrapeHistoryStore {
+  constructor(private readonly directory: string, private readonly maxEntries: number = DEFAULT_MAX_HISTORY_ENTRIES) {}
+
+  private get runsDirectory(): string {
+    return path.join(this.directory, 'runs');
+  }
+
+  private get latestDirectory(): string {
+    return path.join(this.directory, 'latest');
+  }
+
+  // Writes to a temporary file first, so concurrent readers never see a partial run
+  private async writeJson(filePath: string, value: unknown): Promise<void> {
+    const temporaryPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(value), 'utf8');
+    await rename(temporaryPath, filePath);
+  }
+
+  private async readRun(filePath: string): Promise<ScrapeRun | null> {
+    try {
+      const run = JSON.parse(await readFile(filePath, 'utf8')) as ScrapeRun;
+      return typeof run.id === 'string' && Array.isArray(run.results) ? run : null;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Could not read scrape history entry:`, e instanceof Error ? e.message : e);
+      }
+      return null;
+    }
+  }
+
+  // Run file names, oldest first (ids start with their creation time)
+  private async listRunFiles(): Promise<string[]> {
+    try {
+      return (await readdir(this.runsDirectory)).filter(name => name.endsWith('.json')).sort();
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+  }
+
+  async add(run: ScrapeRun): Promise<void> {
+    await mkdir(this.runsDirectory, { recursive: true });
+    await this.writeJson(path.join(this.runsDirectory, `${run.id}.json`), run);
+    if (!run.error) {
+      await mkdir(this.latestDirectory, { recursive: true });
+      await this.writeJson(path.join(this.latestDirectory, `${hashRequestKey(run.requestKey)}.json`), run);
+    }
+
+    const files = await this.listRunFiles();
+    await Promise.all(files.slice(0, Math.max(0, files.length - this.maxEntries)).map(name => (
+      rm(path.join(this.runsDirectory, name), { force: true })
+    )));
+  }
+
+  async list(limit: number): Promise<ScrapeRun[]> {
+    const files = (await this.listRunFiles()).slice(-limit).reverse();
+    const runs = await Promise.all(files.map(name => this.readRun(path.join(this.runsDirectory, name))));
+    return runs.filter((run): run is ScrapeRun => run !== null);
+  }
+
+  async getLatestSuccessful(requestKey: string): Promise<ScrapeRun | null> {
+    const run = await this.readRun(path.join(this.latestDirectory, `${hashRequestKey(requestKey)}.json`));
+    return run?.requestKey === requestKey ? run : null; // Guards against hash collisions
+  }
+}
+
+/**
+ * Connection settings for the Firestore store: the Firebase web app's configuration.
+ */
+export interface FirestoreHistoryConfig {
+  apiKey: string;
+  projectId: string;
+  appId?: string;
+  authDomain?: string;
+  collection: string;
+}
+
+/**
+ * Stores runs in a Firestore collection, one document per run, and the latest successful run of each request in a
+ * companion `<collection>Latest` collection keyed by the hash of its key, so lookups need no composite index.
+ * Runs are never deleted by the app; use a Firestore TTL policy on `createdAt` to expire them.
+ * The Firebase SDK is only loaded once the store is first used.
+ */
+export class FirestoreHistoryStore implements ScrapeHistoryStore {
+  private connection: Promise<{ firestore: Firestore; sdk: typeof import('firebase/firestore') }> | null = null;
+
+  constructor(private readonly config: FirestoreHistoryConfig) {}
+
+  private connect() {
+    this.connection ??= (async () => {
+      const { initializeApp, getApps } = await import('firebase/app');
+      const sdk = await import('firebase/firestore');
+      const appName = `scrape-history-${this.config.projectId}`;
+      const app: FirebaseApp = getApps().find(candidate => candidate.name === appName) ?? initializeApp({
+        apiKey: this.config.apiKey,
+        projectId: this.config.projectId,
+        appId: this.config.appId,
+        authDomain: this.config.authDomain,
+      }, appName);
+      return { firestore: sdk.getFirestore(app), sdk };
+    })().catch(error => {
+      this.connection = null; // Retry on the next call
+      throw error;
+    });
+    return this.connection;
+  }
+
+  async add(run: ScrapeRun): Promise<void> {
+    const { firestore, sdk } = await this.connect();
+    await sdk.setDoc(sdk.doc(firestore, this.config.collection, run.id), run);
+    if (!run.error) {
+      await sdk.setDoc(sdk.doc(firestore, `${this.config.collection}Latest`, hashRequestKey(run.requestKey)), run);
+    }
+  }
+
+  async list(limit: number): Promise<ScrapeRun[]> {
+    const { firestore, sdk } = await this.connect();
+    const snapshot = await sdk.getDocs(sdk.query(
+      sdk.collection(firestore, this.config.collection),
+      sdk.orderBy('createdAt', 'desc'),
+      sdk.limit(limit),
+    ));
+    return snapshot.docs.map(entry => entry.data() as ScrapeRun);
+  }
+
+  async getLatestSuccessful(requestKey: string): Promise<ScrapeRun | null> {
+    const { firestore, sdk } = await this.connect();
+    const snapshot = await sdk.getDoc(sdk.doc(firestore, `${this.config.collection}Latest`, hashRequestKey(requestKey)));
+    const run = snapshot.exists() ? snapshot.data() as ScrapeRun : null;
+    return run?.requestKey === requestKey ? run : null;
+  }
+}
+// --- End Stores ---
+
+// --- Configuration ---
+
+/**
+ * Kinds of history store, selected with SCRAPE_HISTORY_STORE.
+ */
+export const SCRAPE_HISTORY_STORE_KINDS = ['file', 'firestore', 'memory', 'off'] as const;
+export type ScrapeHistoryStoreKind = typeof SCRAPE_HISTORY_STORE_KINDS[number];
+
+/**
+ * Configuration of the history store.
+ */
+export interface ScrapeHistoryConfig {
+  store: ScrapeHistoryStoreKind;
+
+  /**
+   * Directory of the file store.
+   */
+  directory: string;
+
+  /**
+   * Runs kept by the file and memory stores.
+   */
+  maxEntries: number;
+
+  /**
+   * Settings of the Firestore store, or null if it is not selected.
+   */
+  firestore: FirestoreHistoryConfig | null;
+}
+
+const envSchema = z.object({
+  SCRAPE_HISTORY_STORE: z.enum(SCRAPE_HISTORY_STORE_KINDS).default('file'),
+  SCRAPE_HISTORY_DIR: z.string().trim().min(1).default('.scrape-history'),
+  SCRAPE_HISTORY_MAX_ENTRIES: z.coerce.number().int().min(1).default(DEFAULT_MAX_HISTORY_ENTRIES),
+  SCRAPE_HISTORY_FIRESTORE_COLLECTION: z.string().trim().regex(/^[A-Za-z0-9_-]+$/).default('scrapeRuns'),
+  FIREBASE_API_KEY: z.string().trim().min(1).optional(),
+  FIREBASE_PROJECT_ID: z.string().trim().min(1).optional(),
+  FIREBASE_APP_ID: z.string().trim().min(1).optional(),
+  FIREBASE_AUTH_DOMAIN: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Reads and validates the history configuration from environment variables.
+ * Empty variables are treated as unset.
+ * @param env The environment to read (defaults to process.env).
+ * @returns The validated configuration.
+ * @throws ConfigError if a variable is set to an invalid value, or Firestore is selected without its settings.
+ */
+export function getScrapeHistoryConfig(env: Record<string, string | undefined> = process.env): ScrapeHistoryConfig {
+  const definedEnv = Object.fromEntries(
+    Object.entries(env).filter(([key, value]) => (key.startsWith('SCRAPE_HISTORY_') || key.startsWith('FIREBASE_')) && value !== undefined && value !== '')
+  );
+  const result = envSchema.safeParse(definedEnv);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new ConfigError(`Invalid scrape history configuration: ${issue?.path.join('.')} ${issue?.message}.`);
+  }
+
+  const config = result.data;
+  let firestore: FirestoreHistoryConfig | null = null;
+  if (config.SCRAPE_HISTORY_STORE === 'firestore') {
+    if (!config.FIREBASE_API_KEY || !config.FIREBASE_PROJECT_ID) {
+      throw new ConfigError("The Firestore scrape history store requires FIREBASE_API_KEY and FIREBASE_PROJECT_ID.");
+    }
+    firestore = {
+      apiKey: config.FIREBASE_API_KEY,
+      projectId: config.FIREBASE_PROJECT_ID,
+      appId: config.FIREBASE_APP_ID,
+      authDomain: config.FIREBASE_AUTH_DOMAIN,
+      collection: config.SCRAPE_HISTORY_FIRESTORE_COLLECTION,
+    };
+  }
+
+  return {
+    store: config.SCRAPE_HISTORY_STORE,
+    directory: config.SCRAPE_HISTORY_DIR,
+    maxEntries: config.SCRAPE_HISTORY_MAX_ENTRIES,
+    firestore,
+  };
+}
+// --- End Configuration ---
+
+// --- Shared Default Store ---
+let defaultStore: ScrapeHistoryStore | null | undefined;
+
+/**
+ * Returns the shared store configured from environment variables, creating it on first use.
+ * @returns The store, or null if history is turned off.
+ * @throws ConfigError if the environment configuration is invalid.
+ */
+export function getDefaultScrapeHistoryStore(): ScrapeHistoryStore | null {
+  if (defaultStore === undefined) {
+    const config = getScrapeHistoryConfig();
+    defaultStore = config.store === 'file' ? new FileHistoryStore(config.directory, config.maxEntries)
+      : config.store === 'memory' ? new MemoryHistoryStore(config.maxEntries)
+      : config.firestore ? new FirestoreHistoryStore(config.firestore)
+      : null;
+  }
+  return defaultStore;
+}
+// --- End Default Store ---
+
+/**
+ * Records a run and compares it with the latest successful run of the same request.
+ * History must never fail a scrape, so store errors are logged and reported as "no comparison".
+ * @param run The run to record (see createScrapeRun).
+ * @param store The store to use. Defaults to the shared store.
+ * @returns What changed since the previous run, or null if the run failed, it is the request's first run,
+ *   or history is unavailable.
+ */
+export async function recordScrapeRun(run: ScrapeRun, store?: ScrapeHistoryStore | null): Promise<ScrapeRunDiff | null> {
+  try {
+    const historyStore = store === undefined ? getDefaultScrapeHistoryStore() : store;
+    if (!historyStore) {
+      return null;
+    }
+    const previous = run.error ? null : await historyStore.getLatestSuccessful(run.requestKey);
+    await historyStore.add(run);
+    return previous ? diffScrapeRuns(previous, run) : null;
+  } catch (error) {
+    console.warn(`Could not record scrape history:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Lists the most recent runs, newest first, without their results.
+ * @param limit The number of runs to list.
+ * @param store The store to use. Defaults to the shared store.
+ * @returns The runs, or none if history is unavailable.
+ */
+export async function listScrapeRuns(limit: number, store?: ScrapeHistoryStore | null): Promise<ScrapeRunSummary[]> {
+  try {
+    const historyStore = store === undefined ? getDefaultScrapeHistoryStore() : store;
+    return historyStore ? (await historyStore.list(limit)).map(summarizeScrapeRun) : [];
+  } catch (error) {
+    console.warn(`Could not read scrape history:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+}
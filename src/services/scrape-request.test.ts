@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { formatRedditTarget, getTargetListingOptions } from './reddit-target';
+import { parseScrapeRequest } from './scrape-request';
+
+function parseTargets(subredditUrl: string) {
+  return parseScrapeRequest({ subredditUrl }).targets.map(target => [formatRedditTarget(target), getTargetListingOptions(target)]);
+}
+
+describe('parseScrapeRequest', () => {
+  it('scrapes a repeated target once', () => {
+    expect(parseTargets('r/pics, R/Pics https://www.reddit.com/r/pics/')).toEqual([['r/pics', {}]]);
+  });
+
+  it('keeps targets that pasted URLs sort differently', () => {
+    expect(parseTargets('r/pics/top/?t=week, r/pics/new')).toEqual([
+      ['r/pics', { sort: 'top', timeWindow: 'week' }],
+      ['r/pics', { sort: 'new' }],
+    ]);
+  });
+});
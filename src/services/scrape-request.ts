@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Validation of scrape requests, shared by the scrape form's server action and the REST API.
+ * Both receive the same fields as strings (form fields or query parameters), so they share one set of
+ * zod schemas and produce the same error messages.
+ */
+
+import { z } from 'zod';
+import { InvalidInputError } from './scraper-errors';
+import { REDDIT_SEARCH_SORTS, REDDIT_SORTS, REDDIT_TIME_WINDOWS, type RedditSort, type RedditTimeWindow, type SearchOptions } from './subreddit-scraper';
+import { parseRedditTarget, formatRedditTarget, getTargetListingOptions, type RedditTarget } from './reddit-target';
+import { MAX_BATCH_TARGETS } from './batch-scraper';
+import { CONTENT_FILTER_MODES, type ScrapeFilters } from './scrape-filters';
+import { DEFAULT_HASH_DISTANCE_THRESHOLD, MAX_HASH_DISTANCE_THRESHOLD, type NearDuplicateOptions } from './perceptual-hash';
+
+// Schema for the scrape targets: one or more Reddit URLs (any shape), redd.it short links, or bare "r/name" or "name",
+// separated by commas, spaces or new lines. Repeated targets are scraped once,
+// unless pasted URLs ask for different sorts or time windows.
+const targetsSchema = z.string({ message: "Please enter a subreddit or Reddit URL." })
+  .trim()
+  .min(1, { message: "Please enter a subreddit or Reddit URL." })
+  .transform((input, ctx): RedditTarget[] => {
+    const entries = input.split(/[\s,]+/).filter(entry => entry !== '');
+    const targets = new Map<string, RedditTarget>();
+    for (const entry of entries) {
+      const target = parseRedditTarget(entry);
+      if (!target) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: entries.length > 1
+            ? `"${entry}" is not a Reddit subreddit, user, custom feed or post.`
+            : "Please enter a Reddit subreddit, user, custom feed or post (e.g., https://www.reddit.com/r/pics/, r/pics, u/name or u/owner/m/multi).",
+        });
+        return z.NEVER;
+      }
+      targets.set(JSON.stringify([formatRedditTarget(target).toLowerCase(), getTargetListingOptions(target)]), target);
+    }
+    return [...targets.values()];
+  })
+  .refine(targets => targets.length <= MAX_BATCH_TARGETS, { message: `Please enter at most ${MAX_BATCH_TARGETS} subreddits or URLs at once.` });
+
+// Schema for limit, ensuring it's a positive number within a reasonable range
+const limitSchema = z.coerce // Coerce string from FormData to number
+  .number()
+  .int({ message: "Limit must be a whole number." })
+  .positive({ message: "Limit must be positive." })
+  .min(1, { message: "Limit must be at least 1." })
+  .max(500, { message: "Maximum limit is 500." }) // Images are collected across up to MAX_LISTING_PAGES pages
+  .default(25); // Default limit if not provided or invalid
+
+// Schema for the listing cursor submitted by the "Load more" button (a post fullname, e.g. t3_abcde)
+const afterSchema = z.string()
+  .regex(/^t3_[a-z0-9]+$/i, { message: "Invalid pagination cursor." })
+  .optional();
+
+// Schemas for the listing sort and time window (the latter only applies to 'top' and 'controversial')
+const sortSchema = z.enum(REDDIT_SORTS, { message: "Please select a valid sort." }).default('hot');
+const timeWindowSchema = z.enum(REDDIT_TIME_WINDOWS, { message: "Please select a valid time window." }).default('day');
+
+// Schemas for search mode: an optional query (empty means "read the listing") and the search result sort
+const querySchema = z.string()
+  .trim()
+  .max(512, { message: "Search query must be at most 512 characters." })
+  .optional()
+  .transform(query => query || undefined);
+const searchSortSchema = z.enum(REDDIT_SEARCH_SORTS, { message: "Please select a valid search sort." }).default('relevance');
+
+// --- Content Filter Schemas ---
+// Checkbox-style field: forms send "on" only when checked; API callers may send "true" or "1"
+const checkboxSchema = z.preprocess(value => value === 'on' || value === 'true' || value === '1', z.boolean());
+
+// Empty form fields mean "no limit"
+const optionalNumberSchema = (schema: z.ZodNumber) => z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  schema.optional(),
+).transform(value => value ?? null);
+
+// Comma-separated keywords or flairs, e.g. "OC, Meta"
+const commaListSchema = z.string()
+  .max(1000, { message: "Filter lists must be at most 1000 characters." })
+  .optional()
+  .transform(value => (value ?? '').split(',').map(entry => entry.trim()).filter(entry => entry !== ''));
+
+const filtersSchema = z.object({
+  nsfw: z.enum(CONTENT_FILTER_MODES, { message: "Please select a valid NSFW filter." }).default('include'),
+  spoilers: z.enum(CONTENT_FILTER_MODES, { message: "Please select a valid spoiler filter." }).default('include'),
+  skipStickied: checkboxSchema,
+  minScore: optionalNumberSchema(z.coerce.number({ message: "Minimum score must be a number." }).int({ message: "Minimum score must be a whole number." })),
+  minComments: optionalNumberSchema(z.coerce.number({ message: "Minimum comments must be a number." }).int({ message: "Minimum comments must be a whole number." }).min(0, { message: "Minimum comments cannot be negative." })),
+  minUpvoteRatio: optionalNumberSchema(
+    z.coerce.number({ message: "Minimum upvote percentage must be a number." })
+      .min(0, { message: "Minimum upvote percentage must be between 0 and 100." })
+      .max(100, { message: "Minimum upvote percentage must be between 0 and 100." })
+  ).transform(percent => (percent === null ? null : percent / 100)), // The form asks for a percentage
+  flairAllow: commaListSchema,
+  flairDeny: commaListSchema,
+  maxAgeHours: optionalNumberSchema(z.coerce.number({ message: "Maximum post age must be a number." }).positive({ message: "Maximum post age must be positive." })),
+  titleInclude: commaListSchema,
+  titleExclude: commaListSchema,
+}) satisfies z.ZodType<ScrapeFilters, z.ZodTypeDef, unknown>;
+
+// Field names of the content filters
+const filterFieldNames = Object.keys(filtersSchema.shape) as (keyof ScrapeFilters)[];
+
+// Schema for near-duplicate collapsing. Opt-in, since every image is downloaded to be hashed.
+const nearDuplicatesSchema = z.object({
+  collapseDuplicates: checkboxSchema,
+  duplicateThreshold: optionalNumberSchema(
+    z.coerce.number({ message: "Similarity threshold must be a number." })
+      .int({ message: "Similarity threshold must be a whole number." })
+      .min(0, { message: `Similarity threshold must be between 0 and ${MAX_HASH_DISTANCE_THRESHOLD}.` })
+      .max(MAX_HASH_DISTANCE_THRESHOLD, { message: `Similarity threshold must be between 0 and ${MAX_HASH_DISTANCE_THRESHOLD}.` })
+  ),
+}).transform(({ collapseDuplicates, duplicateThreshold }): NearDuplicateOptions | null => (
+  collapseDuplicates ? { threshold: duplicateThreshold ?? DEFAULT_HASH_DISTANCE_THRESHOLD } : null
+));
+
+/**
+ * Names of every field a scrape request reads. The targets field is named after the form's input.
+ */
+export const SCRAPE_REQUEST_FIELD_NAMES = [
+  'subredditUrl',
+  'limit',
+  'sort',
+  'timeWindow',
+  'after',
+  'query',
+  ...filterFieldNames,
+  'collapseDuplicates',
+  'duplicateThreshold',
+] as const;
+
+/**
+ * Raw field values as submitted. Missing fields may be null or undefined.
+ */
+export type ScrapeRequestFields = Partial<Record<typeof SCRAPE_REQUEST_FIELD_NAMES[number], unknown>>;
+
+/**
+ * A validated scrape request.
+ */
+export interface ScrapeRequest {
+  /**
+   * The targets to scrape, without repeats. More than one means a batch scrape.
+   */
+  targets: RedditTarget[];
+
+  /**
+   * The number of images to collect (per target, for batches).
+   */
+  limit: number;
+
+  sort: RedditSort;
+  timeWindow: RedditTimeWindow;
+
+  /**
+   * The search to run instead of reading the listing, if a query was given.
+   */
+  search?: SearchOptions;
+
+  filters: ScrapeFilters;
+
+  /**
+   * How to collapse near-duplicate images, or null to keep them.
+   */
+  nearDuplicates: NearDuplicateOptions | null;
+
+  /**
+   * The listing cursor to continue from ("Load more"), or null for the first page.
+   */
+  after: string | null;
+}
+
+/**
+ * Returns the message of the first issue in a failed parse.
+ */
+function firstIssueMessage(results: z.SafeParseReturnType<unknown, unknown>[], fallback: string): string {
+  return results.flatMap(result => result.error?.errors ?? [])[0]?.message || fallback;
+}
+
+/**
+ * Validates the fields of a scrape request, in form order (targets first), and applies defaults.
+ * While searching, the sort field holds a search sort (relevance, comments, ...) rather than a listing sort.
+ * @param fields The submitted fields.
+ * @returns The validated request.
+ * @throws InvalidInputError with the message of the first invalid field.
+ */
+export function parseScrapeRequest(fields: ScrapeRequestFields): ScrapeRequest {
+  const field = (name: typeof SCRAPE_REQUEST_FIELD_NAMES[number]) => fields[name] ?? undefined; // Missing fields fall back to schema defaults
+
+  const targetsResult = targetsSchema.safeParse(field('subredditUrl'));
+  if (!targetsResult.success) {
+    throw new InvalidInputError(firstIssueMessage([targetsResult], "Invalid URL provided."));
+  }
+
+  const limitResult = limitSchema.safeParse(field('limit'));
+  if (!limitResult.success) {
+    throw new InvalidInputError(firstIssueMessage([limitResult], "Invalid limit value provided."));
+  }
+
+  const queryResult = querySchema.safeParse(field('query'));
+  const isSearch = queryResult.success && queryResult.data !== undefined;
+  const sortResult = sortSchema.safeParse(isSearch ? undefined : field('sort'));
+  const searchSortResult = searchSortSchema.safeParse(isSearch ? field('sort') : undefined);
+  const timeWindowResult = timeWindowSchema.safeParse(field('timeWindow'));
+  if (!queryResult.success || !sortResult.success || !searchSortResult.success || !timeWindowResult.success) {
+    throw new InvalidInputError(firstIssueMessage([queryResult, sortResult, searchSortResult, timeWindowResult], "Invalid sort options provided."));
+  }
+
+  const filtersResult = filtersSchema.safeParse(Object.fromEntries(filterFieldNames.map(name => [name, field(name)])));
+  if (!filtersResult.success) {
+    throw new InvalidInputError(firstIssueMessage([filtersResult], "Invalid filters provided."));
+  }
+
+  const nearDuplicatesResult = nearDuplicatesSchema.safeParse({
+    collapseDuplicates: field('collapseDuplicates'),
+    duplicateThreshold: field('duplicateThreshold'),
+  });
+  if (!nearDuplicatesResult.success) {
+    throw new InvalidInputError(firstIssueMessage([nearDuplicatesResult], "Invalid duplicate detection options provided."));
+  }
+
+  const afterResult = afterSchema.safeParse(field('after') || undefined); // An empty cursor means the first page
+  if (!afterResult.success) {
+    throw new InvalidInputError(firstIssueMessage([afterResult], "Invalid pagination cursor."));
+  }
+
+  return {
+    targets: targetsResult.data,
+    limit: limitResult.data,
+    sort: sortResult.data,
+    timeWindow: timeWindowResult.data,
+    search: queryResult.data !== undefined ? { query: queryResult.data, sort: searchSortResult.data } : undefined,
+    filters: filtersResult.data,
+    nearDuplicates: nearDuplicatesResult.data,
+    after: afterResult.data ?? null,
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createPost } from '../mocks/trendy-post';
+import { getAllowedHostnames, sanitizePosts } from './scrape-service';
+
+describe('sanitizePosts', () => {
+  it('keeps images on allowed hosts as they are', () => {
+    const posts = [
+      createPost({ mediaId: 'a', imageUrl: 'https://i.redd.it/a.jpg' }),
+      createPost({ mediaId: 'b', imageUrl: 'https://preview.redd.it/b.jpg?width=640' }),
+      createPost({ mediaId: 'c', imageUrl: 'https://i.imgur.com/c.jpg' }),
+    ];
+    expect(sanitizePosts(posts, getAllowedHostnames())).toEqual(posts);
+  });
+
+  it('drops images on other hosts and invalid URLs', () => {
+    const posts = [
+      createPost({ mediaId: 'a', imageUrl: 'https://evil.example.com/a.jpg' }),
+      createPost({ mediaId: 'b', imageUrl: 'javascript:alert(1)' }),
+      createPost({ mediaId: 'c', imageUrl: 'not a url' }),
+      createPost({ mediaId: 'd' }),
+    ];
+    expect(sanitizePosts(posts, getAllowedHostnames()).map(post => post.mediaId)).toEqual(['d']);
+  });
+
+  it('drops videos played from hosts that are not allowed for video', () => {
+    const video = { url: 'https://v.redd.it/abc/DASH_720.mp4', hlsUrl: null, dashUrl: null, durationSeconds: 5, hasAudio: false };
+    const posts = [
+      createPost({ mediaId: 'a', mediaType: 'video', video }),
+      createPost({ mediaId: 'b', mediaType: 'video', video: { ...video, url: 'https://videos.example.com/b.mp4' } }),
+    ];
+    expect(sanitizePosts(posts, getAllowedHostnames()).map(post => post.mediaId)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Runs a validated scrape request end to end, for both the scrape form's server action and the REST API:
+ * scrapes the target (or batch of targets) through the cache, drops images on hosts the app doesn't allow,
+ * deduplicates them and collapses near-duplicates if asked to.
+ *
+ * Expected outcomes (no images found, disallowed hosts, every batch source failing) are reported in the returned
+ * outcome; unexpected failures are thrown as ScraperErrors.
+ */
+
+import type { TrendyPost } from './subreddit-scraper';
+import { MAX_LISTING_PAGES } from './subreddit-scraper';
+import type { ScraperErrorCode } from './scraper-errors';
+import { RedditCredentialsMissingError } from './scraper-errors';
+import { getDefaultRedditClient } from './reddit-client';
+import { formatRedditTarget, getTargetListingOptions } from './reddit-target';
+import { scrapeTargetsBatch, type SourceStatus } from './batch-scraper';
+import { getImageHostMediaHostnames } from './image-host-resolvers';
+import { dedupeByCanonicalMedia } from './media-dedup';
+import { scrapeTrendyImagesCached } from './scrape-cache';
+import { collapseNearDuplicates, type NearDuplicateOptions } from './perceptual-hash';
+import type { ScrapeRequest } from './scrape-request';
+import nextConfig from '../../next.config.js'; // Import config - use .js extension
+
+/**
+ * The result of a scrape request, as shown to users.
+ */
+export interface ScrapeOutcome {
+  images: TrendyPost[] | null;
+  error: string | null;
+  errorCode: ScraperErrorCode | null; // Stable identifier for the kind of error, for branching in the UI
+  message: string | null;
+  after: string | null; // Listing cursor for "Load more", null when there is nothing more to fetch
+  sources: SourceStatus[] | null; // Per-target results of a batch scrape, null for a single target
+  cached: boolean; // True if the images came from the scrape cache rather than a fresh API request
+  cacheAge: number | null; // Seconds since the cached images were scraped (the oldest source's, for batches)
+}
+
+// --- Image URL Validation/Sanitization Helpers ---
+// Hosts the app shows (and downloads) images from
+export function getAllowedHostnames(): Set<string> {
+    const allowed = new Set<string>([
+        'i.redd.it',
+        'preview.redd.it',
+        'external-preview.redd.it', // Previews generated for link posts
+    ]);
+
+    const configHostnames = nextConfig.images?.remotePatterns
+        ?.map(pattern => pattern.hostname)
+        .filter((hostname): hostname is string => !!hostname) ?? [];
+
+    configHostnames.forEach(host => allowed.add(host));
+    getImageHostMediaHostnames().forEach(host => allowed.add(host)); // Also in remotePatterns; listed here so the check doesn't depend on it
+    allowed.add('picsum.photos');
+
+    return allowed;
+}
+// Videos play in a plain <video> element rather than next/image, so they have their own list
+export function getAllowedVideoHostnames(): Set<string> {
+    return new Set<string>(['v.redd.it', ...getImageHostMediaHostnames()]);
+}
+
+export function isValidAndAllowedUrl(imageUrl: string | null | undefined, allowedHostnames: Set<string>): boolean {
+    if (!imageUrl) return false;
+    try {
+        const url = new URL(imageUrl);
+        return (url.protocol === "http:" || url.protocol === "https:") && allowedHostnames.has(url.hostname);
+    } catch (_) {
+        return false;
+    }
+}
+
+// Drops posts whose image (or video) is not on an allowed host
+export function sanitizePosts(posts: TrendyPost[], allowedHostnames: Set<string>): TrendyPost[] {
+    const allowedVideoHostnames = getAllowedVideoHostnames();
+    return posts.filter(post => isValidAndAllowedUrl(post.imageUrl, allowedHostnames)
+        && (!post.video || isValidAndAllowedUrl(post.video.url, allowedVideoHostnames)));
+}
+// --- End Image URL Validation/Sanitization Helpers ---
+
+/**
+ * Collapses near-duplicate images when the request asked for it (see perceptual-hash.ts).
+ * Only call this with sanitized posts: every image is downloaded.
+ */
+async function collapseIfRequested(posts: TrendyPost[], nearDuplicates: NearDuplicateOptions | null): Promise<TrendyPost[]> {
+  return nearDuplicates ? collapseNearDuplicates(posts, nearDuplicates) : posts;
+}
+
+/**
+ * Scrapes several targets at once and reports how each one fared.
+ * The batch only fails as a whole if every target failed; otherwise failed targets are listed in `sources`.
+ * Batches don't support "Load more", so `after` is always null.
+ */
+async function runBatchScrape(request: ScrapeRequest): Promise<ScrapeOutcome> {
+  const { targets } = request;
+  const result = await scrapeTargetsBatch(targets, request.limit, {
+    sort: request.sort,
+    timeWindow: request.timeWindow,
+    search: request.search,
+    filters: request.filters,
+  });
+  const failedSources = result.sources.filter(source => source.status === 'error');
+
+  if (failedSources.length === result.sources.length) {
+    const firstFailure = failedSources[0];
+    return {
+      images: null,
+      error: `None of the ${targets.length} sources could be scraped. ${firstFailure?.target}: ${firstFailure?.error}`,
+      errorCode: firstFailure?.errorCode ?? 'UNEXPECTED_ERROR', // Lets the UI show credential help when every source failed for that reason
+      message: null,
+      after: null,
+      sources: result.sources,
+      cached: false,
+      cacheAge: null,
+    };
+  }
+
+  const sanitizedPosts = sanitizePosts(result.posts, getAllowedHostnames());
+  const images = await collapseIfRequested(sanitizedPosts, request.nearDuplicates);
+  const collapsedCount = sanitizedPosts.length - images.length;
+  const succeededCount = result.sources.length - failedSources.length;
+  // The batch counts as cached only if every source that was scraped came from the cache
+  const cacheAges = result.sources.filter(source => source.status === 'ok').map(source => source.cacheAge);
+  const allCached = cacheAges.every(age => age !== null);
+  return {
+    images,
+    error: null,
+    errorCode: null,
+    message: `Fetched ${images.length} images from ${succeededCount} of ${targets.length} sources${collapsedCount > 0 ? ` (${collapsedCount} near-duplicates collapsed)` : ''}.`,
+    after: null,
+    sources: result.sources,
+    cached: allCached,
+    cacheAge: allCached ? Math.max(...(cacheAges as number[])) : null,
+  };
+}
+
+/**
+ * Runs a scrape request: a batch if it names several targets, otherwise one page of a single target.
+ * @param request The validated request.
+ * @param previousImages Images already shown from earlier pages, when continuing with `request.after`.
+ *   They come back from the client, so they are sanitized again before being hashed or returned.
+ *   New images are appended to them, skipping media they already show.
+ * @returns The outcome to show.
+ * @throws RedditCredentialsMissingError if the Reddit API credentials are not configured, or another
+ *   ScraperError subclass if the scrape fails.
+ */
+export async function runScrape(request: ScrapeRequest, previousImages: TrendyPost[] = []): Promise<ScrapeOutcome> {
+  // --- Check API Credentials ---
+  if (!getDefaultRedditClient().hasCredentials()) {
+    throw new RedditCredentialsMissingError("Reddit API credentials (REDDIT_CLIENT_ID, REDDIT_CLIENT_SECRET) are not configured on the server. Please set them in the .env file.");
+  }
+
+  // --- Perform Batch Scraping ---
+  if (request.targets.length > 1) {
+    return runBatchScrape(request);
+  }
+
+  // Posts on hosts that are not allowed are dropped, so a forged earlier page can't make the server fetch them
+  const shownImages = sanitizePosts(previousImages, getAllowedHostnames());
+
+  // --- Perform Scraping ---
+  const [target] = request.targets;
+  // A sort or time window in a pasted URL (e.g., /r/pics/top/?t=week) takes precedence over the request's
+  const targetListingOptions = getTargetListingOptions(target);
+  // Served from the scrape cache when the same listing was scraped recently (see scrape-cache.ts)
+  const { result, cache } = await scrapeTrendyImagesCached(target, request.limit, {
+    sort: targetListingOptions.sort ?? request.sort,
+    timeWindow: targetListingOptions.timeWindow ?? request.timeWindow,
+    search: request.search,
+    filters: request.filters,
+  }, request.after);
+
+  const rawPosts = result.posts;
+
+  if (rawPosts.length === 0) {
+    return {
+      images: shownImages,
+      error: null,
+      errorCode: null,
+      message: `Found 0 suitable image posts ${request.search ? `matching "${request.search.query}" ` : ''}in ${formatRedditTarget(target)} with the current filters (searched ${result.pagesFetched} of at most ${MAX_LISTING_PAGES} pages, ${result.filteredOut} posts filtered out).`, // More informative message
+      after: result.after,
+      sources: null,
+      cached: cache.cached,
+      cacheAge: cache.ageSeconds,
+    };
+  }
+
+  const sanitizedPosts = sanitizePosts(rawPosts, getAllowedHostnames());
+
+  if (sanitizedPosts.length === 0) {
+    return {
+      images: shownImages,
+      error: `Found ${rawPosts.length} posts via API, but their image URLs were not from allowed domains (check next.config.js and ensure i.redd.it, preview.redd.it and external-preview.redd.it are included) or were filtered out.`,
+      errorCode: 'DISALLOWED_IMAGE_HOSTS',
+      message: null,
+      after: result.after,
+      sources: null,
+      cached: cache.cached,
+      cacheAge: cache.ageSeconds,
+    };
+  }
+
+  // Skip media already shown from earlier pages; the posts it reappeared in are listed on the earlier post.
+  // Near-duplicates are collapsed across pages too; hashes of earlier pages' images come from the cache.
+  const distinctImages = dedupeByCanonicalMedia([...shownImages, ...sanitizedPosts]);
+  const images = await collapseIfRequested(distinctImages, request.nearDuplicates);
+  const previousMediaIds = new Set(shownImages.map(post => post.mediaId));
+  const newCount = images.filter(post => !previousMediaIds.has(post.mediaId)).length;
+  const collapsedNote = distinctImages.length > images.length ? ` (${distinctImages.length - images.length} near-duplicates collapsed)` : '';
+
+  // --- Success State ---
+  return {
+    images,
+    error: null,
+    errorCode: null,
+    message: request.after
+      ? `Loaded ${newCount} more images${collapsedNote}.`
+      : `Successfully fetched ${newCount} images${collapsedNote}.`, // Success message
+    after: result.after,
+    sources: null,
+    cached: cache.cached,
+    cacheAge: cache.ageSeconds,
+  };
+}
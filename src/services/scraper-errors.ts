@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Error classes thrown by the subreddit scraper.
+ * Each error carries an HTTP status and a stable `code` so callers can branch on the kind of failure
+ * without matching on message text, which is meant for humans and may change.
+ */
+
+/**
+ * Stable identifiers for every kind of scraper failure. Safe to send to the client.
+ */
+export const SCRAPER_ERROR_CODES = [
+  'INVALID_INPUT',
+  'INVALID_SUBREDDIT_URL',
+  'CREDENTIALS_MISSING',
+  'INVALID_CONFIG',
+  'REDDIT_AUTH_FAILED',
+  'REDDIT_UNREACHABLE',
+  'SUBREDDIT_NOT_FOUND',
+  'SUBREDDIT_FORBIDDEN',
+  'RATE_LIMITED',
+  'INVALID_LISTING',
+  'REDDIT_API_ERROR',
+  'DISALLOWED_IMAGE_HOSTS', // Images were found, but none are on an allowed host; reported by the action, not thrown
+  'MEDIA_DOWNLOAD_FAILED',
+  'UNEXPECTED_ERROR',
+] as const;
+export type ScraperErrorCode = typeof SCRAPER_ERROR_CODES[number];
+
+/**
+ * Base class for all scraper errors.
+ */
+export class ScraperError extends Error {
+  /**
+   * The HTTP status that best describes this failure (the upstream Reddit status where there is one).
+   */
+  readonly status: number;
+
+  /**
+   * The stable identifier for this kind of failure.
+   */
+  readonly code: ScraperErrorCode;
+
+  constructor(message: string, status: number = 500, code: ScraperErrorCode = 'UNEXPECTED_ERROR') {
+    super(message);
+    this.name = 'ScraperError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * The scrape parameters failed validation.
+ */
+export class InvalidInputError extends ScraperError {
+  constructor(message: string) {
+    super(message, 400, 'INVALID_INPUT');
+    this.name = 'InvalidInputError';
+  }
+}
+
+/**
+ * The input does not identify a Reddit location the scraper supports.
+ */
+export class InvalidSubredditUrlError extends ScraperError {
+  constructor(message: string = "Not a recognizable Reddit location. Please enter a subreddit, user, custom feed or post (e.g., https://www.reddit.com/r/pics/, r/pics or u/name).") {
+    super(message, 400, 'INVALID_SUBREDDIT_URL');
+    this.name = 'InvalidSubredditUrlError';
+  }
+}
+
+/**
+ * REDDIT_CLIENT_ID or REDDIT_CLIENT_SECRET is not configured on the server.
+ */
+export class RedditCredentialsMissingError extends ScraperError {
+  constructor(message: string = "Reddit API credentials are missing. Please configure them in your .env file.") {
+    super(message, 500, 'CREDENTIALS_MISSING');
+    this.name = 'RedditCredentialsMissingError';
+  }
+}
+
+/**
+ * A server configuration variable (e.g., the scrape cache TTL) is set to an invalid value.
+ */
+export class ConfigError extends ScraperError {
+  constructor(message: string) {
+    super(message, 500, 'INVALID_CONFIG');
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * A Reddit configuration variable (e.g., a base URL) is set to an invalid value.
+ */
+export class RedditConfigError extends ConfigError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedditConfigError';
+  }
+}
+
+/**
+ * Reddit rejected our credentials or access token (401).
+ */
+export class RedditAuthError extends ScraperError {
+  constructor(message: string = "Failed to authenticate with Reddit API (401 Unauthorized). Please verify your REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET.") {
+    super(message, 401, 'REDDIT_AUTH_FAILED');
+    this.name = 'RedditAuthError';
+  }
+}
+
+/**
+ * The Reddit API could not be reached at all (network failure, DNS, etc.).
+ */
+export class RedditUnreachableError extends ScraperError {
+  constructor(message: string = "Could not connect to Reddit API.") {
+    super(message, 502, 'REDDIT_UNREACHABLE');
+    this.name = 'RedditUnreachableError';
+  }
+}
+
+/**
+ * The subreddit (or other target) does not exist, or is private/banned in a way Reddit reports as 404.
+ */
+export class SubredditNotFoundError extends ScraperError {
+  /**
+   * @param targetLabel The target as shown to users, e.g. "r/pics".
+   */
+  constructor(targetLabel: string) {
+    super(`'${targetLabel}' not found or is private (404).`, 404, 'SUBREDDIT_NOT_FOUND');
+    this.name = 'SubredditNotFoundError';
+  }
+}
+
+/**
+ * Reddit refused access to the subreddit (or other target) (403), e.g. it is private or quarantined, or the User-Agent was rejected.
+ */
+export class SubredditForbiddenError extends ScraperError {
+  /**
+   * @param targetLabel The target as shown to users, e.g. "r/pics".
+   */
+  constructor(targetLabel: string) {
+    super(`Access denied (403) when fetching ${targetLabel}. It may be private, or check API key permissions or User-Agent.`, 403, 'SUBREDDIT_FORBIDDEN');
+    this.name = 'SubredditForbiddenError';
+  }
+}
+
+/**
+ * Reddit rate limited the request (429).
+ */
+export class RateLimitedError extends ScraperError {
+  /**
+   * Seconds until the rate limit window resets, if Reddit reported it.
+   */
+  readonly retryAfterSeconds: number | null;
+
+  constructor(retryAfterSeconds: number | null = null) {
+    const wait = retryAfterSeconds !== null ? ` Try again in ${Math.ceil(retryAfterSeconds)} seconds.` : ' Please wait and try again later.';
+    super(`Rate limited by Reddit (429 Too Many Requests).${wait}`, 429, 'RATE_LIMITED');
+    this.name = 'RateLimitedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Reddit returned a response that is not the Listing structure we expect.
+ */
+export class InvalidListingError extends ScraperError {
+  constructor(message: string = "Received invalid data structure from Reddit API.") {
+    super(message, 502, 'INVALID_LISTING');
+    this.name = 'InvalidListingError';
+  }
+}
+
+/**
+ * Reddit answered with an error status not covered by a more specific class.
+ */
+export class RedditApiError extends ScraperError {
+  constructor(status: number, message: string = `Failed to fetch data from Reddit API. Status: ${status}`) {
+    super(message, status, 'REDDIT_API_ERROR');
+    this.name = 'RedditApiError';
+  }
+}
+
+/**
+ * A post's image or video could not be downloaded from its host.
+ */
+export class MediaDownloadError extends ScraperError {
+  /**
+   * @param url The media URL.
+   * @param reason Why the download failed, e.g. "Status: 404".
+   */
+  constructor(url: string, reason: string) {
+    super(`Could not download ${url}. ${reason}`, 502, 'MEDIA_DOWNLOAD_FAILED');
+    this.name = 'MediaDownloadError';
+  }
+}
+
+/**
+ * Wraps any thrown value in a ScraperError, keeping ScraperErrors as they are.
+ * @param error The caught value.
+ * @param fallbackMessage The message to use for errors that are not ScraperErrors.
+ * @returns A ScraperError describing the failure.
+ */
+export function toScraperError(error: unknown, fallbackMessage: string = "An unexpected error occurred while communicating with the Reddit API."): ScraperError {
+  if (error instanceof ScraperError) {
+    return error;
+  }
+  return new ScraperError(fallbackMessage);
+}
@@ -0,0 +1,146 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { startMockRedditServer } from '../mocks/reddit/server';
+import { RedditClient } from './reddit-client';
+import { RedditRateLimiter } from './reddit-rate-limiter';
+import { createGiphyResolver, createImgurResolver } from './image-host-resolvers';
+import { scrapeTrendyImages, type ScrapeOptions } from './subreddit-scraper';
+import type { ScrapeFilters } from './scrape-filters';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = await startMockRedditServer(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+function createClient(clientId: string = 'mock-client') {
+  return new RedditClient({
+    config: { clientId, clientSecret: 'mock-secret', authBaseUrl: baseUrl, apiBaseUrl: baseUrl, maxRetries: 0 },
+    rateLimiter: new RedditRateLimiter({ maxRetries: 0 }),
+  });
+}
+
+// Without an Imgur client ID, albums are skipped instead of calling the Imgur API
+function scrape(target: string, limit: number = 100, options: ScrapeOptions = {}, after: string | null = null) {
+  return scrapeTrendyImages(target, limit, {
+    client: createClient(),
+    hostResolvers: [createImgurResolver({ clientId: null }), createGiphyResolver()],
+    ...options,
+  }, after);
+}
+
+const noFilters: ScrapeFilters = {
+  nsfw: 'include',
+  spoilers: 'include',
+  skipStickied: false,
+  minScore: null,
+  minComments: null,
+  minUpvoteRatio: null,
+  flairAllow: [],
+  flairDeny: [],
+  maxAgeHours: null,
+  titleInclude: [],
+  titleExclude: [],
+};
+
+describe('scrapeTrendyImages', () => {
+  it('collects images across listing pages', async () => {
+    const result = await scrape('r/mockpics');
+
+    expect(result.pagesFetched).toBe(2);
+    expect(result.after).toBeNull();
+    expect(result.posts.map(post => post.mediaId)).toEqual([
+      'reddit:mk002sunset',
+      'reddit:gal3a',
+      'reddit:gal3b',
+      'reddit:mk004hike',
+      'v.redd.it:mk005storm',
+      'reddit:mk006upload',
+      'reddit:mk007fanart',
+      'reddit:mk008beach',
+      'reddit:mk011fog',
+      'reddit:mk012street',
+      'reddit:mk013waves',
+      'imgur:MkImg01',
+      'imgur:MkGif01',
+      'giphy:MkGiphy01',
+      'v.redd.it:mk018wave',
+      'reddit:mk021lighthouse',
+    ]);
+  });
+
+  it('resolves galleries, previews, videos and external hosts', async () => {
+    const posts = (await scrape('r/mockpics')).posts;
+    const byMediaId = new Map(posts.map(post => [post.mediaId, post]));
+
+    expect(byMediaId.get('reddit:gal3b')).toMatchObject({ resolvedBy: 'gallery', galleryIndex: 1, postId: 't3_mk003' });
+    expect(byMediaId.get('reddit:mk004hike')?.resolvedBy).toBe('preview-source');
+    expect(byMediaId.get('v.redd.it:mk005storm')).toMatchObject({ mediaType: 'video', resolvedBy: 'reddit-video' });
+    expect(byMediaId.get('imgur:MkImg01')?.imageUrl).toBe('https://i.imgur.com/MkImg01.jpg');
+    expect(byMediaId.get('giphy:MkGiphy01')?.mediaType).toBe('gif');
+  });
+
+  it('records reposts and crossposts on the first post of their media', async () => {
+    const posts = (await scrape('r/mockpics')).posts;
+
+    expect(posts.find(post => post.postId === 't3_mk010')).toBeUndefined();
+    expect(posts.find(post => post.postId === 't3_mk002')?.alsoPostedIn.map(ref => ref.postId)).toEqual(['t3_mk010']);
+    expect(posts.find(post => post.postId === 't3_mk020')?.crosspostParent?.postId).toBe('t3_mk021');
+  });
+
+  it('stops at the limit and resumes after the last post looked at', async () => {
+    const first = await scrape('r/mockpics', 5);
+    expect(first.posts).toHaveLength(5);
+    expect(first.pagesFetched).toBe(1);
+    expect(first.after).toBe('t3_mk005');
+
+    const next = await scrape('r/mockpics', 100, {}, 't3_mk010');
+    expect(next.posts[0].postId).toBe('t3_mk011');
+    expect(next.after).toBeNull();
+  });
+
+  it('applies content filters', async () => {
+    const result = await scrape('r/mockpics', 100, { filters: { ...noFilters, nsfw: 'exclude', skipStickied: true } });
+
+    expect(result.filteredOut).toBe(2);
+    expect(result.posts.some(post => post.over18 || post.stickied)).toBe(false);
+  });
+
+  it('reads user profiles, custom feeds and single posts', async () => {
+    expect((await scrape('u/mockuser')).posts.length).toBeGreaterThan(0);
+    expect((await scrape('https://www.reddit.com/user/mockowner/m/mockfeed/')).posts.length).toBeGreaterThan(0);
+
+    const post = await scrape('https://redd.it/mk002');
+    expect(post.posts.map(image => image.postId)).toEqual(['t3_mk002']);
+  });
+
+  it('refreshes a revoked access token and retries once (401)', async () => {
+    const result = await scrape('r/revoked');
+    expect(result.posts.length).toBeGreaterThan(0);
+  });
+
+  it.each([
+    ['rejected credentials (401)', 'r/mockpics', 'invalid', 'REDDIT_AUTH_FAILED', 401],
+    ['a private subreddit (403)', 'r/private', 'mock-client', 'SUBREDDIT_FORBIDDEN', 403],
+    ['an unknown subreddit (404)', 'r/notfound', 'mock-client', 'SUBREDDIT_NOT_FOUND', 404],
+    ['rate limiting (429)', 'r/ratelimited', 'mock-client', 'RATE_LIMITED', 429],
+    ['a malformed listing', 'r/malformed', 'mock-client', 'INVALID_LISTING', 502],
+  ])('reports %s', async (_, target, clientId, code, status) => {
+    await expect(scrapeTrendyImages(target, 25, { client: createClient(clientId), hostResolvers: [] }))
+      .rejects.toMatchObject({ code, status });
+  });
+
+  it('rejects input that is not a Reddit location', async () => {
+    await expect(scrape('https://example.com/r/pics')).rejects.toMatchObject({ code: 'INVALID_SUBREDDIT_URL' });
+  });
+
+  it('reports missing credentials before calling Reddit', async () => {
+    const client = new RedditClient({ config: { clientId: null, clientSecret: null, authBaseUrl: baseUrl, apiBaseUrl: baseUrl } });
+    await expect(scrapeTrendyImages('r/mockpics', 25, { client })).rejects.toMatchObject({ code: 'CREDENTIALS_MISSING' });
+  });
+});
@@ -3,287 +3,840 @@
  * @fileoverview Service for fetching trendy images from a subreddit using the Reddit API.
  */
 
+import type { RedditSearchSort, RedditSort, RedditTimeWindow } from './reddit-listing-options';
+import { searchSortSupportsTimeWindow, sortSupportsTimeWindow } from './reddit-listing-options';
+import type { RedditMediaMetadata, RedditPostData, RedditPreviewImageSource, RedditVideo } from './reddit-api-types';
+import { getDefaultRedditClient, peekDefaultRedditClient, type RedditClient } from './reddit-client';
+import type { RateLimitBudget } from './reddit-rate-limiter';
+import { findImageHostResolver, getImageHostResolvers, type ImageHostResolver } from './image-host-resolvers';
+import { matchesScrapeFilters, type ScrapeFilters } from './scrape-filters';
+import { CanonicalMediaIndex, getCanonicalMediaId } from './media-dedup';
+import { formatRedditTarget, getTargetListingOptions, parseRedditTarget, type RedditTarget } from './reddit-target';
+import { InvalidInputError, InvalidSubredditUrlError, toScraperError } from './scraper-errors';
+
+export {
+  REDDIT_SEARCH_SORTS,
+  REDDIT_SORTS,
+  REDDIT_TIME_WINDOWS,
+  searchSortSupportsTimeWindow,
+  sortSupportsTimeWindow,
+  type RedditSearchSort,
+  type RedditSort,
+  type RedditTimeWindow,
+} from './reddit-listing-options';
+
+/**
+ * How an image URL was obtained from a post:
+ * - 'direct': the post's `url` links straight to an image file.
+ * - 'gallery': an item of a gallery post, resolved through `media_metadata`.
+ * - 'preview-source': the full-size image from `preview.images[0].source`.
+ * - 'preview-resolution': a downscaled image from `preview.images[0].resolutions`.
+ * - 'external-host': the post links to a page on an external host (e.g., Imgur), resolved by an ImageHostResolver.
+ * - 'reddit-video': a video hosted on v.redd.it, from `secure_media.reddit_video`.
+ * - 'video-preview': the video rendition Reddit made of an animated link post, from `preview.reddit_video_preview`.
+ */
+export type ImageResolutionStrategy =
+  | 'direct'
+  | 'gallery'
+  | 'preview-source'
+  | 'preview-resolution'
+  | 'external-host'
+  | 'reddit-video'
+  | 'video-preview';
+
+/**
+ * What kind of media a post holds: a still image, a silent looping animation, or a video (possibly with sound).
+ */
+export type MediaType = 'image' | 'gif' | 'video';
+
+/**
+ * Playable sources for a video or an animation delivered as video.
+ */
+export interface TrendyVideo {
+  /**
+   * A progressive MP4 that plays in every browser. Reddit's fallback MP4s have no audio track.
+   */
+  url: string;
+
+  /**
+   * The HLS playlist (with audio, if any), or null if there is none.
+   */
+  hlsUrl: string | null;
+
+  /**
+   * The DASH manifest, or null if there is none.
+   */
+  dashUrl: string | null;
+
+  /**
+   * The duration in seconds, or null if unknown.
+   */
+  durationSeconds: number | null;
+
+  hasAudio: boolean;
+}
+
+/**
+ * Identifies a Reddit post by its fullname, subreddit and comment thread.
+ */
+export interface PostReference {
+  /**
+   * The post's fullname (e.g., t3_abcde).
+   */
+  postId: string;
+
+  /**
+   * The subreddit the post was made in, without the "r/" prefix.
+   */
+  subreddit: string;
+
+  /**
+   * The absolute URL of the post's comment thread.
+   */
+  permalink: string;
+}
+
 /**
  * Represents a trendy post retrieved from the Reddit API.
  */
 export interface TrendyPost {
   /**
-   * The direct URL of the image.
+   * The direct URL of the image. For videos, the poster frame.
    */
   imageUrl: string;
 
+  /**
+   * Whether the post is a still image, an animation or a video.
+   */
+  mediaType: MediaType;
+
+  /**
+   * The playable sources for videos and animations delivered as video, or null for images and GIF files.
+   */
+  video: TrendyVideo | null;
+
+  /**
+   * The canonical id of the media (see media-dedup.ts). Posts sharing it show the same upload.
+   */
+  mediaId: string;
+
   /**
    * The title of the Reddit post.
    */
   title: string;
+
+  /**
+   * Which resolution strategy produced `imageUrl`.
+   */
+  resolvedBy: ImageResolutionStrategy;
+
+  /**
+   * The post's fullname (e.g., t3_abcde).
+   */
+  postId: string;
+
+  /**
+   * The username of the post's author (e.g., "spez"), or "[deleted]".
+   */
+  author: string;
+
+  /**
+   * The subreddit the post was made in, without the "r/" prefix.
+   */
+  subreddit: string;
+
+  /**
+   * The absolute URL of the post's comment thread.
+   */
+  permalink: string;
+
+  /**
+   * When the post was created, in seconds since the Unix epoch (UTC).
+   */
+  createdUtc: number;
+
+  /**
+   * The post's net score (upvotes minus downvotes, fuzzed by Reddit).
+   */
+  score: number;
+
+  /**
+   * The fraction of votes that are upvotes, between 0 and 1.
+   */
+  upvoteRatio: number;
+
+  /**
+   * The number of comments on the post.
+   */
+  numComments: number;
+
+  /**
+   * The post's link flair text, or null if it has none.
+   */
+  flair: string | null;
+
+  /**
+   * Whether the post is marked NSFW.
+   */
+  over18: boolean;
+
+  /**
+   * Whether the post is marked as a spoiler.
+   */
+  spoiler: boolean;
+
+  /**
+   * Whether the post is pinned by the moderators.
+   */
+  stickied: boolean;
+
+  /**
+   * The width of the source image in pixels, or null if Reddit did not report it.
+   */
+  width: number | null;
+
+  /**
+   * The height of the source image in pixels, or null if Reddit did not report it.
+   */
+  height: number | null;
+
+  /**
+   * The fullname of the gallery post this image belongs to (e.g., t3_abcde), if it came from a gallery.
+   */
+  galleryId?: string;
+
+  /**
+   * The zero-based position of this image within its gallery.
+   */
+  galleryIndex?: number;
+
+  /**
+   * The total number of images extracted from the gallery.
+   */
+  gallerySize?: number;
+
+  /**
+   * The original post, if this post is a crosspost. The media is taken from the original.
+   */
+  crosspostParent: PostReference | null;
+
+  /**
+   * Other posts showing the same media (reposts and crossposts), which were dropped from the results.
+   */
+  alsoPostedIn: PostReference[];
+
+  /**
+   * The number of re-encoded or resized copies collapsed into this post by perceptual hashing
+   * (see perceptual-hash.ts). They are listed in `alsoPostedIn` too.
+   */
+  duplicateCount: number;
 }
 
-// --- Reddit API Types (simplified) ---
-interface RedditTokenResponse {
-  access_token: string;
-  token_type: string; // Should be "bearer"
-  expires_in: number; // Duration in seconds (usually 3600)
-  scope: string;
+/**
+ * A search within a subreddit or custom feed.
+ */
+export interface SearchOptions {
+  /**
+   * The search query, using Reddit's search syntax (e.g., `cats`, `title:sunset`, `flair:OC`).
+   */
+  query: string;
+
+  /**
+   * The result sort. Defaults to 'relevance'. Replaces `ScrapeOptions.sort` while searching.
+   */
+  sort?: RedditSearchSort;
 }
 
-interface RedditPostData {
-  title: string;
-  name: string; // Fullname, e.g., t3_abcde
-  url: string;
-  thumbnail?: string;
-  is_video: boolean;
-  is_gallery?: boolean;
-  // Add other fields if needed
+/**
+ * Options controlling which listing is requested from Reddit.
+ */
+export interface ScrapeOptions {
+  /**
+   * The listing sort to request. Defaults to 'hot'.
+   */
+  sort?: RedditSort;
+
+  /**
+   * The time window for 'top' and 'controversial' listings. Ignored by other sorts. Defaults to 'day'
+   * (or 'all' when searching).
+   */
+  timeWindow?: RedditTimeWindow;
+
+  /**
+   * Searches the target for posts matching a query instead of reading its listing.
+   * Only subreddits and custom feeds can be searched.
+   */
+  search?: SearchOptions;
+
+  /**
+   * Content filters posts must pass to contribute images. By default every post is kept.
+   */
+  filters?: ScrapeFilters;
+
+  /**
+   * Resolvers for links to external image hosts. Defaults to the registered resolvers (see image-host-resolvers.ts).
+   */
+  hostResolvers?: ImageHostResolver[];
+
+  /**
+   * The Reddit client to send requests with. Defaults to the shared client configured from the environment.
+   */
+  client?: RedditClient;
+}
+
+
+/**
+ * Reverses the HTML escaping Reddit applies to URLs in JSON responses (e.g., '&amp;' in preview URLs).
+ * @param url The escaped URL.
+ * @returns The URL with HTML entities decoded.
+ */
+function unescapeRedditUrl(url: string): string {
+  return url.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
 }
 
-interface RedditListingChild {
-  kind: string; // e.g., "t3" for posts
-  data: RedditPostData;
+/**
+ * An image URL resolved from a post, with the strategy that produced it and its source dimensions.
+ */
+interface ResolvedImage {
+  imageUrl: string;
+  resolvedBy: ImageResolutionStrategy;
+  width: number | null;
+  height: number | null;
+  mediaType: MediaType;
+  video: TrendyVideo | null;
 }
 
-interface RedditListingData {
-  after: string | null; // For pagination
-  dist: number;
-  modhash: string;
-  geo_filter: string | null;
-  children: RedditListingChild[];
-  before: string | null; // For pagination
+/**
+ * The fields relating a post to other posts with the same media, filled in once its media is resolved.
+ */
+type PostLinks = Pick<TrendyPost, 'mediaId' | 'crosspostParent' | 'alsoPostedIn' | 'duplicateCount'>;
+
+/**
+ * An image extracted from a post, before it is linked to other posts with the same media.
+ */
+type ExtractedImage = Omit<TrendyPost, keyof PostLinks>;
+
+/**
+ * Maps the post-level fields shared by every image extracted from a post.
+ * @param postData The post data from a listing.
+ * @returns The TrendyPost fields describing the post itself.
+ */
+function mapPostMetadata(postData: RedditPostData): Omit<TrendyPost, keyof ResolvedImage | keyof PostLinks | 'galleryId' | 'galleryIndex' | 'gallerySize'> {
+  return {
+    title: postData.title || 'Untitled Post',
+    postId: postData.name,
+    author: postData.author || '[deleted]',
+    subreddit: postData.subreddit,
+    permalink: `https://www.reddit.com${postData.permalink}`,
+    createdUtc: postData.created_utc,
+    score: postData.score ?? 0,
+    upvoteRatio: postData.upvote_ratio ?? 0,
+    numComments: postData.num_comments ?? 0,
+    flair: postData.link_flair_text || null,
+    over18: !!postData.over_18,
+    spoiler: !!postData.spoiler,
+    stickied: !!postData.stickied,
+  };
 }
 
-interface RedditApiResponse {
-  kind: string; // e.g., "Listing"
-  data: RedditListingData;
+/**
+ * Resolves a gallery item's media metadata to an image URL.
+ * Prefers the direct i.redd.it file derived from the MIME type, falling back to the (unescaped) preview source.
+ * @param mediaId The gallery item's media id.
+ * @param media The matching entry from `media_metadata`.
+ * @returns The image URL and source dimensions, or null if the media is not a processed image.
+ */
+function resolveGalleryMedia(mediaId: string, media: RedditMediaMetadata | undefined): ResolvedImage | null {
+  if (!media || media.status !== 'valid' || (media.e !== 'Image' && media.e !== 'AnimatedImage')) {
+    return null;
+  }
+  const details = {
+    resolvedBy: 'gallery' as const,
+    width: media.s?.x ?? null,
+    height: media.s?.y ?? null,
+    mediaType: media.e === 'AnimatedImage' ? 'gif' as const : 'image' as const,
+    video: null,
+  };
+  const extension = media.m?.split('/')[1];
+  if (extension && /^(jpg|jpeg|png|gif|webp)$/i.test(extension)) {
+    return { imageUrl: `https://i.redd.it/${mediaId}.${extension}`, ...details };
+  }
+  const source = media.s?.u ?? media.s?.gif;
+  return source ? { imageUrl: unescapeRedditUrl(source), ...details } : null;
 }
 
-// --- End Reddit API Types ---
+/**
+ * Expands a gallery post into its images, in gallery order.
+ * Items that are missing, still processing, or not images are skipped.
+ * @param postData The gallery post.
+ * @returns The gallery's images, each tagged with the gallery id and its position.
+ */
+function extractGalleryImages(postData: RedditPostData): ExtractedImage[] {
+  const items = postData.gallery_data?.items ?? [];
+  const metadata = postData.media_metadata ?? {};
+  const images = items
+    .map(item => resolveGalleryMedia(item.media_id, metadata[item.media_id]))
+    .filter((image): image is ResolvedImage => !!image);
+  const postMetadata = mapPostMetadata(postData);
+
+  return images.map((image, index) => ({
+    ...postMetadata,
+    ...image,
+    galleryId: postData.name,
+    galleryIndex: index,
+    gallerySize: images.length,
+  }));
+}
 
-// --- Simple In-Memory Token Cache ---
-let redditAccessToken: string | null = null;
-let tokenExpiryTime: number | null = null;
-// --- End Token Cache ---
+/**
+ * Preferred width, in pixels, when picking a downscaled preview resolution.
+ * Grid cards are at most a few hundred pixels wide, so this leaves headroom for high-DPI screens.
+ */
+const PREVIEW_TARGET_WIDTH = 640;
 
+/**
+ * Returns true if the URL's path ends in a known image file extension.
+ * Query strings and fragments are ignored, so signed or resized URLs still match.
+ * @param url The URL to check.
+ */
+function isDirectImageUrl(url: string): boolean {
+  try {
+    return /\.(jpg|jpeg|png|gif|webp)$/i.test(new URL(url).pathname);
+  } catch (e) {
+    return false;
+  }
+}
 
 /**
- * Generates a unique User-Agent string required by the Reddit API.
- * Format: <platform>:<app ID>:<version string> (by /u/<reddit username>)
- * Replace placeholders with actual values if known, otherwise use defaults.
- * IMPORTANT: Reddit uses the User-Agent for tracking and enforcing API rules.
- * Using a descriptive and unique User-Agent is crucial.
- * @returns A formatted User-Agent string.
+ * Picks the smallest preview resolution at least `PREVIEW_TARGET_WIDTH` wide, or the largest one available.
+ * @param resolutions The preview resolutions reported by Reddit.
+ * @returns The best-fitting resolution, or null if there are none.
  */
-function getUserAgent(): string {
-    const platform = "web"; // Or 'node', 'browser', etc.
-    const appId = process.env.REDDIT_CLIENT_ID || "unknown-app-id"; // Use env var if available
-    const version = "1.0.0"; // Your app's version
-    const redditUsername = "your-reddit-username"; // CHANGE THIS if applicable, otherwise remove 'by /u/...' part or use a placeholder app name
-    // return `${platform}:${appId}:${version} (by /u/${redditUsername})`;
-     return `${platform}:${appId}:${version} (NextJS Subreddit Scraper)`; // Example without username
+function pickPreviewResolution(resolutions: RedditPreviewImageSource[]): RedditPreviewImageSource | null {
+  const sorted = resolutions.filter(resolution => !!resolution.url).sort((a, b) => a.width - b.width);
+  return sorted.find(resolution => resolution.width >= PREVIEW_TARGET_WIDTH) ?? sorted[sorted.length - 1] ?? null;
 }
 
+/**
+ * Returns true if the URL's path ends in .gif.
+ */
+function isGifUrl(url: string): boolean {
+  try {
+    return /\.gif$/i.test(new URL(url).pathname);
+  } catch (e) {
+    return false;
+  }
+}
 
 /**
- * Retrieves an Application Only OAuth access token from Reddit.
- * Uses client credentials (ID and Secret) from environment variables.
- * Caches the token in memory until it expires.
- * @returns A promise resolving to the access token string.
- * @throws An error if credentials are missing or token fetch fails.
+ * Resolves a post to Reddit's still preview: the preview source, or else the best-fitting preview resolution.
+ * @param postData The post data from a listing.
+ * @returns The preview image, or null if the post has no preview.
  */
-async function getRedditAccessToken(): Promise<string> {
-  const now = Date.now();
+function resolvePreviewImage(postData: RedditPostData): ResolvedImage | null {
+  const previewImage = postData.preview?.images?.[0];
+
+  if (previewImage?.source?.url) {
+    const { url, width, height } = previewImage.source;
+    return { imageUrl: unescapeRedditUrl(url), resolvedBy: 'preview-source', width, height, mediaType: 'image', video: null };
+  }
+
+  const resolution = previewImage?.resolutions ? pickPreviewResolution(previewImage.resolutions) : null;
+  if (resolution) {
+    const { url, width, height } = resolution;
+    return { imageUrl: unescapeRedditUrl(url), resolvedBy: 'preview-resolution', width, height, mediaType: 'image', video: null };
+  }
+
+  return null;
+}
 
-  // Check cache first
-  if (redditAccessToken && tokenExpiryTime && now < tokenExpiryTime) {
-    // console.log("Using cached Reddit access token.");
-    return redditAccessToken;
+/**
+ * Resolves a non-gallery post to a single image URL.
+ * Tries the direct URL first, then the preview source, then the best-fitting preview resolution.
+ * @param postData The post data from a listing.
+ * @returns The image URL, the strategy that produced it and its dimensions, or null if no strategy applies.
+ */
+function resolvePostImage(postData: RedditPostData): ResolvedImage | null {
+  // Check if the 'url' field points directly to an image (common for direct uploads)
+  if (postData.url && isDirectImageUrl(postData.url)) {
+    // The preview source is generated from the same upload, so its dimensions match
+    const previewSource = postData.preview?.images?.[0]?.source;
+    return {
+      imageUrl: postData.url,
+      resolvedBy: 'direct',
+      width: previewSource?.width ?? null,
+      height: previewSource?.height ?? null,
+      mediaType: isGifUrl(postData.url) ? 'gif' : 'image',
+      video: null,
+    };
   }
 
-  // console.log("Fetching new Reddit access token...");
-  const clientId = process.env.REDDIT_CLIENT_ID;
-  const clientSecret = process.env.REDDIT_CLIENT_SECRET;
+  return resolvePreviewImage(postData);
+}
+
+/**
+ * Maps a Reddit video object to playable sources.
+ */
+function mapRedditVideo(video: RedditVideo): TrendyVideo {
+  return {
+    url: unescapeRedditUrl(video.fallback_url),
+    hlsUrl: video.hls_url ? unescapeRedditUrl(video.hls_url) : null,
+    dashUrl: video.dash_url ? unescapeRedditUrl(video.dash_url) : null,
+    durationSeconds: video.duration ?? null,
+    hasAudio: !!video.has_audio && !video.is_gif,
+  };
+}
 
-  if (!clientId || !clientSecret) {
-    console.error("REDDIT_CLIENT_ID or REDDIT_CLIENT_SECRET environment variables are not set.");
-    throw new Error("Reddit API credentials are missing. Please configure them in your .env file.");
+/**
+ * Resolves a video post (v.redd.it), or an animated link post Reddit made a video rendition of.
+ * The still preview becomes the poster frame; videos without one are skipped, since the grid
+ * and downloads need a still image.
+ * @param postData The post data from a listing.
+ * @returns The poster frame and video sources, or null if the post has no playable video or no poster.
+ */
+function resolvePostVideo(postData: RedditPostData): ResolvedImage | null {
+  const redditVideo = postData.secure_media?.reddit_video ?? postData.media?.reddit_video;
+  const source = redditVideo ?? postData.preview?.reddit_video_preview;
+  const poster = resolvePreviewImage(postData);
+  if (!source?.fallback_url || !poster) {
+    return null;
   }
 
-  const tokenUrl = "https://www.reddit.com/api/v1/access_token";
-  const authString = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+  return {
+    imageUrl: poster.imageUrl,
+    resolvedBy: redditVideo ? 'reddit-video' : 'video-preview',
+    width: source.width ?? poster.width,
+    height: source.height ?? poster.height,
+    mediaType: source.is_gif ? 'gif' : 'video',
+    video: mapRedditVideo(source),
+  };
+}
 
+/**
+ * Resolves a link to an external image host (e.g., an Imgur page or album) to its media.
+ * Albums with several images are tagged like galleries. Resolver failures are logged and yield no images,
+ * so the caller can fall back to Reddit's preview.
+ * @param postData The post data from a listing.
+ * @param resolvers The resolvers to try.
+ * @returns The post's images, or an empty array if no resolver handles the link or it has no media.
+ */
+async function resolveExternalImages(postData: RedditPostData, resolvers: ImageHostResolver[]): Promise<ExtractedImage[]> {
+  let url: URL;
   try {
-    const response = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${authString}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': getUserAgent(),
-      },
-      body: 'grant_type=client_credentials',
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`Failed to get Reddit access token. Status: ${response.status}. Body: ${errorBody}`);
-      // More specific error for 401 Unauthorized
-      if (response.status === 401) {
-        throw new Error(`Failed to authenticate with Reddit API. Status: ${response.status} (Unauthorized). Please verify your REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET.`);
-      }
-      throw new Error(`Failed to authenticate with Reddit API. Status: ${response.status}`);
-    }
+    url = new URL(unescapeRedditUrl(postData.url));
+  } catch (e) {
+    return [];
+  }
+  const resolver = findImageHostResolver(url, resolvers);
+  if (!resolver) {
+    return [];
+  }
 
-    const tokenData = (await response.json()) as RedditTokenResponse;
+  let media: Awaited<ReturnType<ImageHostResolver['resolve']>> = [];
+  try {
+    media = await resolver.resolve(url);
+  } catch (e) {
+    console.warn(`The ${resolver.name} resolver failed for ${url.href}:`, e instanceof Error ? e.message : e);
+  }
+  const postMetadata = mapPostMetadata(postData);
+  const isAlbum = media.length > 1;
+
+  return media.map((item, index) => ({
+    ...postMetadata,
+    imageUrl: item.url,
+    resolvedBy: 'external-host',
+    width: item.width,
+    height: item.height,
+    mediaType: item.mediaType,
+    video: item.videoUrl
+      ? { url: item.videoUrl, hlsUrl: null, dashUrl: null, durationSeconds: null, hasAudio: item.mediaType === 'video' }
+      : null,
+    ...(isAlbum ? { galleryId: postData.name, galleryIndex: index, gallerySize: media.length } : {}),
+  }));
+}
 
-    if (tokenData.token_type !== 'bearer') {
-      console.error("Received unexpected token type:", tokenData.token_type);
-      throw new Error("Failed to get a valid bearer token from Reddit.");
-    }
+/**
+ * Extracts the images a post's own media fields hold.
+ * @param postData The post data from a listing.
+ * @param resolvers The resolvers for links to external image hosts.
+ * @returns The post's images (several for galleries and albums), or an empty array if it has none we can use.
+ */
+async function extractMediaImages(postData: RedditPostData, resolvers: ImageHostResolver[]): Promise<ExtractedImage[]> {
+  // NSFW and other content filters are applied by matchesScrapeFilters
+  if (postData.is_video) {
+    const video = resolvePostVideo(postData);
+    return video ? [{ ...mapPostMetadata(postData), ...video }] : [];
+  }
 
-    redditAccessToken = tokenData.access_token;
-    // Set expiry time slightly before actual expiry (e.g., 5 minutes buffer)
-    tokenExpiryTime = Date.now() + (tokenData.expires_in - 300) * 1000;
+  if (postData.is_gallery) {
+    return extractGalleryImages(postData);
+  }
 
-    // console.log("Successfully obtained new Reddit access token.");
-    return redditAccessToken;
-  } catch (error) {
-    console.error("Error fetching Reddit access token:", error);
-    // Clear potentially stale cache on error
-    redditAccessToken = null;
-    tokenExpiryTime = null;
-    // Re-throw a more user-friendly error or the original one
-    if (error instanceof Error && error.message.includes('Failed to authenticate')) {
-        throw error;
+  // Links to external hosts resolve to the original media, which beats Reddit's preview of them.
+  // Direct links are resolved too, so media on other subdomains (e.g., media.giphy.com) maps to an allowed host.
+  if (postData.url) {
+    const externalImages = await resolveExternalImages(postData, resolvers);
+    if (externalImages.length > 0) {
+      return externalImages;
     }
-    throw new Error("Could not connect to Reddit API to get access token.");
   }
+
+  // Animated link posts (e.g., gifv on hosts without a resolver) come with a video rendition that beats a still preview
+  const resolved = (!isDirectImageUrl(postData.url ?? '') && resolvePostVideo(postData)) || resolvePostImage(postData);
+  if (!resolved) {
+    return [];
+  }
+  return [{
+    ...mapPostMetadata(postData),
+    ...resolved,
+  }];
 }
 
 /**
- * Extracts the subreddit name from a full URL.
- * @param url The full subreddit URL (e.g., https://www.reddit.com/r/pics/).
- * @returns The subreddit name (e.g., "pics") or null if the URL is invalid.
+ * Extracts the images a single post contributes to the results.
+ * Crossposts link to the original post and carry its media only under `crosspost_parent_list`, so their
+ * images are taken from the original, while the title, score and other post fields stay the crosspost's own.
+ * @param postData The post data from a listing.
+ * @param resolvers The resolvers for links to external image hosts.
+ * @returns The post's images (several for galleries and albums), or an empty array if it has none we can use.
  */
-function extractSubredditName(url: string): string | null {
-    try {
-        const parsedUrl = new URL(url);
-        const pathParts = parsedUrl.pathname.split('/').filter(part => part !== ''); // Split and remove empty parts
-        // Check if path starts with 'r' and has a name after it
-        if (pathParts.length >= 2 && pathParts[0].toLowerCase() === 'r') {
-            return pathParts[1];
-        }
-        return null;
-    } catch (e) {
-        // Invalid URL format
-        return null;
-    }
+async function extractPostImages(postData: RedditPostData, resolvers: ImageHostResolver[]): Promise<TrendyPost[]> {
+  // The list is empty if the original was deleted; fall back to whatever the crosspost itself carries
+  const parent = postData.crosspost_parent_list?.[0];
+  const images = await extractMediaImages(parent ?? postData, resolvers);
+  const postMetadata = mapPostMetadata(postData);
+  const crosspostParent: PostReference | null = parent
+    ? { postId: parent.name, subreddit: parent.subreddit, permalink: `https://www.reddit.com${parent.permalink}` }
+    : null;
+
+  return images.map(image => ({
+    ...image,
+    ...postMetadata,
+    mediaId: getCanonicalMediaId(image),
+    crosspostParent,
+    alsoPostedIn: [],
+    duplicateCount: 0,
+  }));
 }
 
+/**
+ * Maximum number of posts Reddit returns per listing request.
+ */
+const REDDIT_PAGE_SIZE = 100;
 
 /**
- * Asynchronously fetches images from trendy posts in a given subreddit using the Reddit API.
- * Retrieves posts from the 'hot' listing.
- *
- * @param subredditUrl The full URL of the subreddit (e.g., https://www.reddit.com/r/pics/).
- * @param limit The maximum number of posts to fetch (default 25, max 100 per Reddit API).
- * @returns A promise that resolves to an array of TrendyPost objects or null if the subreddit is invalid/inaccessible.
- * @throws An error if API authentication fails or a critical API error occurs.
+ * Hard ceiling on listing pages fetched per scrape, regardless of how many images were found.
+ * Protects the API budget on subreddits with very few image posts.
  */
-export async function scrapeTrendyImages(subredditUrl: string, limit: number = 25): Promise<TrendyPost[] | null> {
-  const subredditName = extractSubredditName(subredditUrl);
+export const MAX_LISTING_PAGES = 10;
 
-  if (!subredditName) {
-    console.error(`Invalid subreddit URL format: ${subredditUrl}`);
-    throw new Error("Invalid subreddit URL format. Please use the format: https://www.reddit.com/r/subredditname/");
-  }
+/**
+ * The images collected by a scrape, along with the cursor needed to continue it.
+ */
+export interface ScrapeResult {
+  /**
+   * The image posts collected, in listing order.
+   */
+  posts: TrendyPost[];
 
-  console.log(`Fetching trendy images from r/${subredditName} using Reddit API...`);
+  /**
+   * The listing cursor (post fullname) to pass as `after` to fetch the next batch, or null if the listing is exhausted.
+   */
+  after: string | null;
 
-  try {
-    const accessToken = await getRedditAccessToken();
-    const apiUrl = `https://oauth.reddit.com/r/${subredditName}/hot?limit=${Math.min(limit, 100)}`; // Use oauth domain for authenticated requests
-
-    const response = await fetch(apiUrl, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'User-Agent': getUserAgent(),
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`Failed to fetch r/${subredditName} data. Status: ${response.status} ${response.statusText}`);
-       if (response.status === 401) {
-         throw new Error(`Reddit API authentication failed (401 Unauthorized). This usually means your access token is invalid or expired. The service will attempt to refresh it, but if this persists, check your API credentials.`);
-       }
-       if (response.status === 404) {
-         throw new Error(`Subreddit 'r/${subredditName}' not found or is private (404).`);
-       }
-       if (response.status === 403) {
-         // This might indicate invalid token, permissions, or API rule violation
-         throw new Error(`Access denied (403) when fetching r/${subredditName}. Check API key permissions or User-Agent.`);
-       }
-       if (response.status === 429) {
-          throw new Error(`Rate limited by Reddit (429 Too Many Requests). Please wait and try again later.`);
-       }
-      // Generic error for other failed statuses
-      throw new Error(`Failed to fetch data from Reddit API. Status: ${response.status}`);
-    }
+  /**
+   * The number of listing pages requested from Reddit.
+   */
+  pagesFetched: number;
 
-    const listing = (await response.json()) as RedditApiResponse;
+  /**
+   * The number of posts dropped by the content filters.
+   */
+  filteredOut: number;
+}
 
-    if (listing.kind !== 'Listing' || !listing.data || !listing.data.children) {
-      console.error("Unexpected API response structure:", listing);
-      throw new Error("Received invalid data structure from Reddit API.");
+/**
+ * Builds the query parameters for a listing request.
+ * @param target The target being scraped.
+ * @param limit The number of posts to request (clamped to 100).
+ * @param options The sort and time window to use.
+ * @param after The listing cursor to continue from, if any.
+ * @returns The listing query parameters.
+ */
+function buildListingParams(target: RedditTarget, limit: number, options: ScrapeOptions, after: string | null): URLSearchParams {
+  const sort = options.sort ?? 'hot';
+  const params = new URLSearchParams({ limit: String(Math.min(limit, REDDIT_PAGE_SIZE)) });
+  if (options.search) {
+    const searchSort = options.search.sort ?? 'relevance';
+    params.set('q', options.search.query);
+    params.set('restrict_sr', '1'); // Only search within the target, not all of Reddit
+    params.set('sort', searchSort);
+    if (searchSortSupportsTimeWindow(searchSort)) {
+      params.set('t', options.timeWindow ?? 'all');
     }
+    params.set('type', 'link'); // Posts only; subreddit and user results have no images
+  } else if (target.type === 'user') {
+    // Profile listings take the sort as a query parameter rather than a path segment
+    params.set('sort', sort);
+  }
+  if (!options.search && sortSupportsTimeWindow(sort)) {
+    params.set('t', options.timeWindow ?? 'day');
+  }
+  if (after) {
+    params.set('after', after);
+  }
+  return params;
+}
+
+/**
+ * Returns the API path of the listing to read for a target.
+ * @param target The target to scrape.
+ * @param sort The listing sort.
+ * @returns The listing path, relative to the API base URL.
+ */
+function getListingPath(target: RedditTarget, sort: RedditSort): string {
+  switch (target.type) {
+    case 'subreddit':
+      return `/r/${target.subreddits.join('+')}/${sort}`;
+    case 'user':
+      // The user's own posts; the sort goes in the query string (see buildListingParams)
+      return `/user/${target.username}/submitted`;
+    case 'multireddit':
+      return `/user/${target.owner}/m/${target.name}/${sort}`;
+    case 'post':
+      // by_id returns a Listing holding just the requested post
+      return `/by_id/t3_${target.postId}`;
+  }
+}
+
+/**
+ * Returns the API path of the search endpoint for a target.
+ * @param target The target to search.
+ * @returns The search path, relative to the API base URL.
+ * @throws InvalidInputError for targets that cannot be searched (users and single posts).
+ */
+function getSearchPath(target: RedditTarget): string {
+  switch (target.type) {
+    case 'subreddit':
+      return `/r/${target.subreddits.join('+')}/search`;
+    case 'multireddit':
+      return `/user/${target.owner}/m/${target.name}/search`;
+    default:
+      throw new InvalidInputError(`Searching ${formatRedditTarget(target)} is not supported. Please search a subreddit or custom feed.`);
+  }
+}
+
+/**
+ * Returns the Reddit API request budget as last reported to the shared client, for display.
+ * Returns null before the shared client has made any requests.
+ */
+export function getRedditRateLimitBudget(): RateLimitBudget | null {
+  return peekDefaultRedditClient()?.getRateLimitBudget() ?? null;
+}
+
+/**
+ * Asynchronously fetches images from trendy posts in a given subreddit (or other Reddit target) using the Reddit API.
+ * Retrieves posts from the requested listing ('hot' unless another sort is given), following the
+ * listing's `after` cursor across pages until `limit` images are collected, the listing runs out,
+ * or `MAX_LISTING_PAGES` pages have been fetched.
+ *
+ * @param target The target to scrape, or user input to parse with `parseRedditTarget`
+ *   (e.g., https://www.reddit.com/r/pics/, old.reddit.com/r/a+b, r/pics or redd.it/abc123).
+ * @param limit The number of images to collect (default 25).
+ * @param options The listing sort and time window to request, or a search to run instead of reading the listing.
+ *   A sort or time window found in a pasted URL (e.g., /r/pics/top/?t=week) takes precedence over the options'.
+ * @param after The listing cursor to continue from (e.g., the `after` of a previous ScrapeResult).
+ * @returns A promise that resolves to the collected posts and next cursor.
+ * @throws A ScraperError subclass describing the failure (see scraper-errors.ts).
+ */
+export async function scrapeTrendyImages(
+  target: string | RedditTarget,
+  limit: number = 25,
+  options: ScrapeOptions = {},
+  after: string | null = null,
+): Promise<ScrapeResult> {
+  const parsedTarget = typeof target === 'string' ? parseRedditTarget(target) : target;
+
+  if (!parsedTarget) {
+    console.error(`Unrecognized Reddit target: ${target}`);
+    throw new InvalidSubredditUrlError();
+  }
+
+  const targetLabel = formatRedditTarget(parsedTarget);
+  const targetOptions = getTargetListingOptions(parsedTarget);
+  const listingOptions: ScrapeOptions = {
+    ...options,
+    sort: targetOptions.sort ?? options.sort,
+    timeWindow: targetOptions.timeWindow ?? options.timeWindow,
+  };
+  const sort = listingOptions.sort ?? 'hot';
+  const listingPath = listingOptions.search ? getSearchPath(parsedTarget) : getListingPath(parsedTarget, sort);
+  if (listingOptions.search) {
+    console.log(`Searching ${targetLabel} for "${listingOptions.search.query}" images using Reddit API...`);
+  } else {
+    console.log(`Fetching ${sort} images from ${targetLabel} using Reddit API...`);
+  }
 
-    const posts: TrendyPost[] = [];
-    listing.data.children.forEach(child => {
-      if (child.kind === 't3' && child.data) { // Ensure it's a post and has data
-        const postData = child.data;
-
-        // Filter out videos, stickied posts (often meta), galleries (complex), and NSFW if desired
-        if (!postData.is_video && !postData.is_gallery /* && !postData.over_18 */) {
-          // Check if the 'url' field points directly to an image (common for direct uploads)
-          const url = postData.url;
-          if (url && /\.(jpg|jpeg|png|gif)$/i.test(url)) {
-             // Basic check for common image extensions
-             if (!posts.some(p => p.imageUrl === url)) { // Basic deduplication
-                posts.push({
-                  imageUrl: url,
-                  title: postData.title || 'Untitled Post',
-                });
-             }
+  try {
+    const client = options.client ?? getDefaultRedditClient();
+    const hostResolvers = options.hostResolvers ?? getImageHostResolvers();
+    const collected = new CanonicalMediaIndex();
+    let cursor = after;
+    let pagesFetched = 0;
+    let postsSeen = 0;
+    let filteredOut = 0;
+    const now = Date.now();
+
+    while (collected.size < limit && pagesFetched < MAX_LISTING_PAGES) {
+      // Always request full pages: most posts are not images, so `limit` posts rarely yield `limit` images
+      const params = buildListingParams(parsedTarget, REDDIT_PAGE_SIZE, listingOptions, cursor);
+      const listing = await client.getListing(listingPath, params, targetLabel);
+      pagesFetched++;
+
+      const children = listing.data.children;
+      let stoppedEarly = false;
+      for (const child of children) {
+        if (collected.size >= limit) {
+          stoppedEarly = true;
+          break;
+        }
+        postsSeen++;
+        // Resume after the last post we actually looked at, so an early stop doesn't skip the rest of the page
+        cursor = child.data?.name ?? cursor;
+
+        if (child.kind === 't3' && child.data) { // Ensure it's a post and has data
+          if (listingOptions.filters && !matchesScrapeFilters(child.data, listingOptions.filters, now)) {
+            filteredOut++;
+            continue;
           }
-           // Optional: Could add logic here to check `postData.preview.images` for gallery previews or other image sources
-           // if the main `url` isn't a direct image link. This gets more complex.
+          // Galleries are added whole, so the result may slightly exceed `limit`
+          // Reposts and crossposts of media already collected are recorded on the first post instead
+          (await extractPostImages(child.data, hostResolvers)).forEach(image => collected.add(image));
         }
       }
-    });
 
-    console.log(`Successfully retrieved ${posts.length} image posts from r/${subredditName} via API.`);
-    if (posts.length === 0 && listing.data.children.length > 0) {
-        console.warn(`Found ${listing.data.children.length} posts, but none met the image criteria (not video, gallery, direct image URL).`);
+      if (!stoppedEarly) {
+        // Page fully consumed: continue from Reddit's cursor, which is null once the listing is exhausted
+        cursor = listing.data.after;
+      }
+      if (!cursor || children.length === 0) {
+        cursor = null;
+        break;
+      }
+    }
+
+    const posts = collected.getPosts();
+    console.log(`Successfully retrieved ${posts.length} image posts from ${targetLabel} via API (${pagesFetched} page(s)).`);
+    if (posts.length === 0 && postsSeen > 0) {
+        console.warn(`Found ${postsSeen} posts (${filteredOut} filtered out), but none had displayable media (direct image, gallery, preview, hosted GIF or video).`);
     }
 
-    return posts;
+    return { posts, after: cursor, pagesFetched, filteredOut };
 
   } catch (error) {
-    console.error(`Error fetching from Reddit API for r/${subredditName}:`, error instanceof Error ? error.message : error);
-
-     // If it's one of our specific thrown errors, re-throw it
-     if (error instanceof Error && (
-         error.message.includes("credentials are missing") ||
-         error.message.includes("Failed to authenticate") || // Covers the 401 case too
-         error.message.includes("Could not connect") ||
-         error.message.includes("Invalid subreddit URL format") ||
-         error.message.includes("(404)") ||
-         error.message.includes("(403)") ||
-         error.message.includes("(429)") ||
-         error.message.includes("invalid data structure")
-     )) {
-        throw error;
-     }
-
-    // Generic fallback error
-    throw new Error("An unexpected error occurred while communicating with the Reddit API.");
-    // Returning null might hide the underlying issue, throwing is often better here.
-    // return null;
+    console.error(`Error fetching from Reddit API for ${targetLabel}:`, error instanceof Error ? error.message : error);
+
+    // Our own errors pass through; anything else becomes a generic ScraperError
+    throw toScraperError(error);
   }
 }
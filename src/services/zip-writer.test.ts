@@ -0,0 +1,52 @@
+import { execFileSync, spawnSync } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { readStream, readZipArchive } from '../mocks/zip-reader';
+import { createZipStream } from './zip-writer';
+
+const hasUnzip = !spawnSync('unzip', ['-v']).error;
+
+async function* chunks(...parts: string[]): AsyncGenerator<Uint8Array> {
+  for (const part of parts) {
+    yield Buffer.from(part);
+  }
+}
+
+describe('createZipStream', () => {
+  it('writes whole and streamed entries with their CRCs and sizes', async () => {
+    const archive = await readStream(createZipStream([
+      { name: 'a.txt', content: Buffer.from('hello') },
+      { name: 'folder/b.txt', content: chunks('streamed ', 'in ', 'chunks') },
+      { name: 'empty.txt', content: Buffer.alloc(0) },
+      { name: 'ünïcode.txt', content: Buffer.from('names') },
+    ]));
+
+    expect([...readZipArchive(archive)].map(([name, data]) => [name, data.toString()])).toEqual([
+      ['a.txt', 'hello'],
+      ['folder/b.txt', 'streamed in chunks'],
+      ['empty.txt', ''],
+      ['ünïcode.txt', 'names'],
+    ]);
+  });
+
+  it.skipIf(!hasUnzip)('writes an archive unzip accepts', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'zip-writer-'));
+    try {
+      const path = join(directory, 'test.zip');
+      await writeFile(path, await readStream(createZipStream([{ name: 'a.txt', content: chunks('one', 'two') }])));
+      expect(execFileSync('unzip', ['-p', path, 'a.txt']).toString()).toBe('onetwo');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('errors the stream if an entry fails', async () => {
+    async function* failing(): AsyncGenerator<Uint8Array> {
+      yield Buffer.from('partial');
+      throw new Error('read failed');
+    }
+    await expect(readStream(createZipStream([{ name: 'a.txt', content: failing() }]))).rejects.toThrow('read failed');
+  });
+});
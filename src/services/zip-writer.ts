@@ -0,0 +1,191 @@
+/**
+ * @fileoverview A minimal streaming ZIP writer. Entries are written as they arrive, one chunk at a time,
+ * so archives of any number of files are produced without holding them in memory.
+ *
+ * Entries are stored without compression (images and videos are already compressed), with their CRC and
+ * sizes in a data descriptor after the data, since they aren't known until the entry has been streamed.
+ * ZIP64 is not supported: archives must stay under 4 GiB and 65535 entries.
+ */
+
+import { crc32 } from 'node:zlib'; // Node 20.15+ or 22.2+, as package.json's engines require
+
+/**
+ * A file to add to an archive.
+ */
+export interface ZipEntry {
+  /**
+   * The path of the file within the archive, with "/" separators.
+   */
+  name: string;
+
+  /**
+   * The file's modification time. Defaults to now.
+   */
+  modifiedAt?: Date;
+
+  /**
+   * The file's contents, whole or as a stream of chunks.
+   */
+  content: Uint8Array | AsyncIterable<Uint8Array>;
+}
+
+// Largest size or offset a ZIP without ZIP64 can record
+const MAX_ZIP_OFFSET = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+// General purpose flags: sizes in a data descriptor (bit 3) and UTF-8 file names (bit 11)
+const ENTRY_FLAGS = 0x0008 | 0x0800;
+const ZIP_VERSION = 20; // 2.0: the oldest version supporting everything used here
+
+interface WrittenEntry {
+  name: Buffer;
+  flags: number;
+  dosTime: number;
+  dosDate: number;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// --- Record Encoding ---
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980); // DOS dates start in 1980
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localFileHeader(entry: Omit<WrittenEntry, 'crc' | 'size'>): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(entry.flags, 6);
+  header.writeUInt16LE(0, 8); // Stored
+  header.writeUInt16LE(entry.dosTime, 10);
+  header.writeUInt16LE(entry.dosDate, 12);
+  // CRC and sizes (offsets 14-25) stay zero; they follow the data in the data descriptor
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28); // Extra field length
+  return Buffer.concat([header, entry.name]);
+}
+
+function dataDescriptor(entry: WrittenEntry): Buffer {
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(entry.crc, 4);
+  descriptor.writeUInt32LE(entry.size, 8); // Compressed size
+  descriptor.writeUInt32LE(entry.size, 12); // Uncompressed size
+  return descriptor;
+}
+
+function centralDirectoryHeader(entry: WrittenEntry): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4); // Version made by
+  header.writeUInt16LE(ZIP_VERSION, 6); // Version needed to extract
+  header.writeUInt16LE(entry.flags, 8);
+  header.writeUInt16LE(0, 10); // Stored
+  header.writeUInt16LE(entry.dosTime, 12);
+  header.writeUInt16LE(entry.dosDate, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.size, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  // Extra field, comment, disk number and attributes (offsets 30-41) stay zero
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+function endOfCentralDirectory(entryCount: number, directorySize: number, directoryOffset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054b50, 0);
+  record.writeUInt16LE(entryCount, 8); // Entries on this disk
+  record.writeUInt16LE(entryCount, 10); // Entries in total
+  record.writeUInt32LE(directorySize, 12);
+  record.writeUInt32LE(directoryOffset, 16);
+  return record;
+}
+// --- End Record Encoding ---
+
+/**
+ * Writes a ZIP archive of the given entries, reading each entry's content only when it is reached.
+ * @param entries The files to add, in order. Names should be unique.
+ * @returns The archive, chunk by chunk.
+ * @throws Error if the archive would need ZIP64 (4 GiB or more, or more than 65535 entries), or if reading an
+ *   entry's content fails. The archive is incomplete in that case.
+ */
+export async function* writeZipArchive(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    if (written.length >= MAX_ZIP_ENTRIES) {
+      throw new Error(`ZIP archives are limited to ${MAX_ZIP_ENTRIES} entries.`);
+    }
+
+    const header = { name: Buffer.from(entry.name, 'utf8'), flags: ENTRY_FLAGS, offset, ...toDosDateTime(entry.modifiedAt ?? new Date()) };
+    const localHeader = localFileHeader(header);
+    yield localHeader;
+    offset += localHeader.length;
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of entry.content instanceof Uint8Array ? [entry.content] : entry.content) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      offset += chunk.length;
+      if (offset > MAX_ZIP_OFFSET) {
+        throw new Error("ZIP archives are limited to 4 GiB.");
+      }
+      yield chunk;
+    }
+
+    const writtenEntry = { ...header, crc, size };
+    written.push(writtenEntry);
+    const descriptor = dataDescriptor(writtenEntry);
+    yield descriptor;
+    offset += descriptor.length;
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  for (const entry of written) {
+    const directoryHeader = centralDirectoryHeader(entry);
+    yield directoryHeader;
+    directorySize += directoryHeader.length;
+  }
+  if (directoryOffset + directorySize > MAX_ZIP_OFFSET) {
+    throw new Error("ZIP archives are limited to 4 GiB.");
+  }
+  yield endOfCentralDirectory(written.length, directorySize, directoryOffset);
+}
+
+/**
+ * Streams a ZIP archive of the given entries as a web stream, e.g. for a Response body.
+ * Chunks are produced as the reader pulls them, so a slow client slows down the downloads feeding the archive
+ * instead of letting them pile up in memory.
+ * @param entries The files to add, in order.
+ * @returns The archive stream. It errors if writing the archive fails.
+ */
+export function createZipStream(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const archive = writeZipArchive(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await archive.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (e) {
+        controller.error(e);
+      }
+    },
+    async cancel() {
+      await archive.return(undefined); // Stops reading the current entry (and its download)
+    },
+  }, { highWaterMark: 0 });
+}